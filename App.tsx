@@ -1,19 +1,42 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import InputPanel from './components/InputPanel';
 import Viewer3D from './components/Viewer3D';
 import SceneGraph from './components/SceneGraph';
+import PropertiesInspector from './components/PropertiesInspector';
 import Dashboard from './components/Dashboard';
-import { generate3DModel } from './services/geminiService';
+import ChangeSetReview from './components/ChangeSetReview';
+import SettingsPanel from './components/SettingsPanel';
+import ValidationReportPanel from './components/ValidationReportPanel';
+import VariantGrid from './components/VariantGrid';
+import VariantTray from './components/VariantTray';
+import { generate3DModel, generateVariants, refine3DModel } from './services/generationService';
+import { applyModelPatch, applyPartChanges, getRemovalSet, renamePart } from './services/patchService';
+import { cloneParts, convertPartUnits, getCopyOffset, PartClipboard } from './services/modelingService';
+import { StreamProgress } from './services/partStreamParser';
+import { validateModel } from './services/validationService';
+import { SelectionMode, updateSelection } from './services/selectionService';
+import { getInheritedIds } from './services/hierarchyService';
+import { EMPTY_HISTORY, HistoryState, recordCommand, travelHistory } from './services/historyService';
+import { analyzePlausibility, correctPlausibility } from './services/plausibilityService';
+import { classifyError, describeGenerationError, GenerationError } from './services/generationErrors';
+import { createModelGenerator, PROVIDER_LABELS } from './services/generatorRegistry';
+import { loadCustomPresets, loadGeneratorSettings, saveCustomPresets, saveGeneratorSettings } from './services/settingsService';
 import { saveAsPart, saveAsSTL } from './services/exportService';
-import { logGeneration } from './services/trackingService';
-import { GeneratedModel, GenerationState } from './types';
-import { TriangleAlert, Cpu, Share2, Menu, FileJson, FileBox, HelpCircle, Save, FolderOpen, Trash2, Copy, Eye, Info, CheckCircle, Database } from 'lucide-react';
+import { STANDARD_VIEWS } from './services/cameraService';
+import { logGeneration, logValidationReport } from './services/trackingService';
+import { CameraBookmark, ChatMessage, DesignVariant, Dimension, GeneratedModel, GenerationMode, GenerationState, GeneratorSettings, ImageAttachment, LengthUnit, ModelPart, ModelPatch, PartChange, SectionPlane, StylePreset, ValidationReport } from './types';
+import { DEFAULT_UNITS, STYLE_PRESETS, UNIT_LABELS } from './constants';
+import { TriangleAlert, Cpu, Share2, Menu, FileJson, FileBox, HelpCircle, Save, FolderOpen, Trash2, Copy, Eye, Info, CheckCircle, Database, Layers, Settings, Undo2, Redo2, ClipboardPaste, CopyPlus } from 'lucide-react';
 
 interface Notification {
   type: 'error' | 'success' | 'info';
   message: string;
 }
 
+// Text form of a prompt for the conversation thread & logs, noting attached references
+const describePrompt = (text: string, images: ImageAttachment[]) =>
+  images.length > 0 ? `${text || 'Model from reference'} [+${images.length} image${images.length > 1 ? 's' : ''}]` : text;
+
 const App: React.FC = () => {
   // --- ROUTING STATE ---
   const [currentRoute, setCurrentRoute] = useState<'APP' | 'DASHBOARD'>('APP');
@@ -41,6 +64,7 @@ const App: React.FC = () => {
   };
 
   const [model, setModel] = useState<GeneratedModel | null>(null);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
   const [generationState, setGenerationState] = useState<GenerationState>({
     isGenerating: false,
     progress: 0,
@@ -49,10 +73,37 @@ const App: React.FC = () => {
   
   const [viewState, setViewState] = useState({ mode: 'ISO', t: Date.now() });
   const [notification, setNotification] = useState<Notification | null>(null);
-  const [buildingSpeed, setBuildingSpeed] = useState(150);
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
+  const [exportUnits, setExportUnits] = useState<LengthUnit>(DEFAULT_UNITS);
+  const [exportVisibleOnly, setExportVisibleOnly] = useState(false);
+  const [generationMode, setGenerationMode] = useState<GenerationMode>('new');
+  const [conversation, setConversation] = useState<ChatMessage[]>([]);
+  const [pendingPatch, setPendingPatch] = useState<ModelPatch | null>(null);
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  const [variants, setVariants] = useState<DesignVariant[]>([]);
+  const [activeVariantId, setActiveVariantId] = useState<string | null>(null);
+  const [pendingVariantCount, setPendingVariantCount] = useState(0);
+  const [showVariantGrid, setShowVariantGrid] = useState(false);
+  const [referenceImages, setReferenceImages] = useState<ImageAttachment[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>(loadGeneratorSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [customPresets, setCustomPresets] = useState<StylePreset[]>(loadCustomPresets);
+  const [clipboard, setClipboard] = useState<PartClipboard | null>(null);
+
+  const generator = useMemo(() => createModelGenerator(generatorSettings), [generatorSettings]);
+  const stylePresets = useMemo(() => [...STYLE_PRESETS, ...customPresets], [customPresets]);
+  const stylePreset = stylePresets.find(p => p.id === generatorSettings.stylePresetId) ?? STYLE_PRESETS[0];
+
+  // Plausibility is judged on finished models only, not on a half-streamed one
+  // Only parts and units are analyzed; sections, dimensions and bookmarks change the model without moving anything
+  const findings = useMemo(
+    () => (model && !generationState.isGenerating ? analyzePlausibility(model) : []),
+    [model?.parts, model?.units, generationState.isGenerating]
+  );
   const menuRef = useRef<HTMLDivElement>(null);
-  const intervalRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const openInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -64,6 +115,195 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Selected parts that a refinement or patch removed, or that got locked, are dropped from the selection
+  useEffect(() => {
+    const lockedIds = model ? getInheritedIds(model.parts, 'locked') : new Set<string>();
+    setSelectedIds(prev => {
+      const remaining = prev.filter(id => model?.parts.some(p => p.id === id) && !lockedIds.has(id));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [model]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      setSelectedIds([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSelect = useCallback((partIds: string[], mode: SelectionMode) => {
+    setSelectedIds(prev => updateSelection(prev, partIds, mode));
+  }, []);
+
+  // Every finished model change goes through here so it can be undone. Streamed partial models don't
+  const commitModel = useCallback((label: string, before: GeneratedModel | null, after: GeneratedModel | null, coalesceKey?: string) => {
+    setModel(after);
+    setHistory(prev => recordCommand(prev, { label, before, after, coalesceKey, timestamp: Date.now() }));
+  }, []);
+
+  // Direct edits from the viewport, inspector and scene graph; exports and refinements pick them up from the model state.
+  // Named actions (hide, isolate...) pass their own label and always get their own undo step
+  const handleChangeParts = useCallback((changes: PartChange[], label?: string) => {
+    if (!model || changes.length === 0) return;
+    const updated = applyPartChanges(model, changes);
+    if (label) {
+      commitModel(label, model, updated);
+      return;
+    }
+    const ids = changes.map(change => change.id);
+    const fields = Array.from(new Set(changes.flatMap(change => Object.keys(change).filter(key => key !== 'id')))).sort();
+    const part = ids.length === 1 ? model.parts.find(p => p.id === ids[0]) : undefined;
+    // Repeated drags and picker moves on the same fields collapse into one step
+    commitModel(`Edit ${part ? part.description || part.id : `${ids.length} parts`} (${fields.join(', ')})`, model, updated, `edit:${ids.join(',')}:${fields.join(',')}`);
+  }, [model, commitModel]);
+
+  const handleChangeDimensions = useCallback((dimensions: Dimension[], label: string) => {
+    if (!model) return;
+    const { dimensions: _dimensions, ...rest } = model;
+    commitModel(label, model, dimensions.length > 0 ? { ...rest, dimensions } : rest);
+  }, [model, commitModel]);
+
+  const handleChangeBookmarks = useCallback((bookmarks: CameraBookmark[], label: string) => {
+    if (!model) return;
+    const { bookmarks: _bookmarks, ...rest } = model;
+    commitModel(label, model, bookmarks.length > 0 ? { ...rest, bookmarks } : rest);
+  }, [model, commitModel]);
+
+  const handleChangeSections = useCallback((sections: SectionPlane[], label: string, coalesceKey?: string) => {
+    if (!model) return;
+    const { sections: _sections, ...rest } = model;
+    commitModel(label, model, sections.length > 0 ? { ...rest, sections } : rest, coalesceKey);
+  }, [model, commitModel]);
+
+  const handlePartChange = useCallback((change: PartChange) => handleChangeParts([change]), [handleChangeParts]);
+
+  const handleRenamePart = useCallback((id: string, newId: string) => {
+    if (!model) return;
+    commitModel(`Rename part ${id} → ${newId}`, model, renamePart(model, id, newId));
+    setSelectedIds(prev => prev.map(selectedId => (selectedId === id ? newId : selectedId)));
+  }, [model, commitModel]);
+
+  const handleRenameModel = useCallback((name: string) => {
+    if (!model) return;
+    commitModel(`Rename model to "${name}"`, model, { ...model, name });
+  }, [model, commitModel]);
+
+  const isEditable = !!model && !generationState.isGenerating && !pendingPatch;
+  // Undo, adding and pasting would pull the model out from under a running request or a change set under review
+  const isIdle = !generationState.isGenerating && !pendingPatch;
+
+  // Parts added from the palette, duplicated or pasted. Without a model they start a new one.
+  // The added top-level parts become the selection, so they can be moved right away
+  const handleAddParts = useCallback((parts: ModelPart[], label?: string) => {
+    if (parts.length === 0) return;
+    const base = model ?? { name: 'Untitled Model', units: DEFAULT_UNITS, parts: [] };
+    commitModel(label ?? `Add ${parts[0].description}`, model, applyModelPatch(base, { summary: '', added: parts, removed: [], modified: [] }));
+    const addedIds = new Set(parts.map(p => p.id));
+    setSelectedIds(parts.filter(p => !p.parentId || !addedIds.has(p.parentId)).map(p => p.id));
+  }, [model, commitModel]);
+
+  // Children and boolean tools belong to the parts they hang off, so they are copied and deleted along
+  const getSelectionWithDependents = () => (model ? model.parts.filter(p => getRemovalSet(model.parts, selectedIds).has(p.id)) : []);
+
+  const describeSelection = () => {
+    const part = selectedIds.length === 1 ? model?.parts.find(p => p.id === selectedIds[0]) : undefined;
+    return part ? part.description || part.id : `${selectedIds.length} parts`;
+  };
+
+  const handleDuplicate = () => {
+    if (!model || selectedIds.length === 0) return;
+    handleAddParts(cloneParts(model, getSelectionWithDependents(), getCopyOffset(model)), `Duplicate ${describeSelection()}`);
+    setActiveMenu(null);
+  };
+
+  const handleDelete = () => {
+    if (!model || selectedIds.length === 0) return;
+    // Deleting a part takes its children and tools along, and locked ones must not change
+    const lockedIds = getInheritedIds(model.parts, 'locked');
+    const lockedDependents = Array.from(getRemovalSet(model.parts, selectedIds)).filter(id => lockedIds.has(id));
+    if (lockedDependents.length > 0) {
+      showNotification('error', `Cannot delete: locked part${lockedDependents.length > 1 ? 's' : ''} ${lockedDependents.join(', ')} would be removed too`);
+      setActiveMenu(null);
+      return;
+    }
+    const updated = applyModelPatch(model, { summary: '', added: [], removed: selectedIds, modified: [] });
+    // A model without parts can't be saved or reopened, so deleting everything clears the scene
+    commitModel(`Delete ${describeSelection()}`, model, updated.parts.length > 0 ? updated : null);
+    setActiveMenu(null);
+  };
+
+  const handleCopy = () => {
+    if (!model || selectedIds.length === 0) return;
+    const parts = getSelectionWithDependents();
+    setClipboard({ parts, units: model.units ?? DEFAULT_UNITS });
+    setActiveMenu(null);
+    showNotification('info', `Copied ${parts.length} part${parts.length > 1 ? 's' : ''}`);
+  };
+
+  const handlePaste = () => {
+    if (!clipboard) return;
+    const parts = convertPartUnits(clipboard.parts, clipboard.units, model?.units ?? clipboard.units);
+    // Pasting next to the originals shifts the copies so they don't overlap
+    const offset = model && parts.some(part => model.parts.some(p => p.id === part.id)) ? getCopyOffset(model) : [0, 0, 0] as [number, number, number];
+    handleAddParts(cloneParts(model, parts, offset), `Paste ${parts.length} part${parts.length > 1 ? 's' : ''}`);
+    setActiveMenu(null);
+  };
+
+  const handleTravelHistory = useCallback((steps: number) => {
+    const result = travelHistory(history, steps);
+    if (!result) return;
+    setHistory(result.history);
+    setModel(result.model);
+    // The restored model may belong to another variant, or to none; picking a variant next must not
+    // write it back into the one marked active. Its validation report no longer describes it either
+    setActiveVariantId(null);
+    setValidationReport(null);
+    setActiveMenu(null);
+  }, [history]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y). Text fields keep their own undo
+  useEffect(() => {
+    if (!isIdle) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      e.preventDefault();
+      handleTravelHistory(key === 'y' || e.shiftKey ? 1 : -1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isIdle, handleTravelHistory]);
+
+  // Copy / paste / duplicate / delete. Text fields and selected page text keep their native behaviour
+  const editShortcutsRef = useRef({ handleCopy, handlePaste, handleDuplicate, handleDelete });
+  editShortcutsRef.current = { handleCopy, handlePaste, handleDuplicate, handleDelete };
+
+  useEffect(() => {
+    if (!isIdle) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      const actions = editShortcutsRef.current;
+      const key = e.key.toLowerCase();
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        actions.handleDelete();
+      } else if (e.ctrlKey || e.metaKey) {
+        if (key === 'c' && !window.getSelection()?.toString()) actions.handleCopy();
+        else if (key === 'v') actions.handlePaste();
+        else if (key === 'd') { e.preventDefault(); actions.handleDuplicate(); }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isIdle]);
+
+  // Default the export unit to whatever unit the current model was authored in
+  useEffect(() => {
+    setExportUnits(model?.units ?? DEFAULT_UNITS);
+  }, [model?.units]);
+
   const showNotification = (type: 'error' | 'success' | 'info', message: string) => {
     setNotification({ type, message });
     if (type !== 'error') {
@@ -71,65 +311,237 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerate = useCallback(async (prompt: string) => {
+  // Every request gets its own controller, so Cancel only stops the one in flight
+  const startRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return {
+      signal: controller.signal,
+      onRetry: (attempt: number, delayMs: number, error: GenerationError) => {
+        setGenerationState(prev => ({ ...prev, status: `${error.kind.toUpperCase()} ERROR - RETRY ${attempt} IN ${Math.ceil(delayMs / 1000)}s...` }));
+      }
+    };
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Cancelling is not a failure; anything else is reported with its classified cause
+  const reportFailure = (err: unknown) => {
+    const failure = classifyError(err);
+    if (failure.kind === 'cancelled') {
+      showNotification('info', "Generation cancelled");
+      setGenerationState({ isGenerating: false, progress: 0, status: 'CANCELLED' });
+      return;
+    }
+    console.error(err);
+    showNotification('error', describeGenerationError(failure));
+    setGenerationState({ isGenerating: false, progress: 0, status: `ERROR: ${failure.kind.toUpperCase()}` });
+  };
+
+  const handleGenerate = useCallback(async (prompt: string, images: ImageAttachment[] = []) => {
+    const request = startRequest();
+    const previousModel = model;
     setNotification(null);
     setGenerationState({
       isGenerating: true,
       progress: 0,
-      status: 'INITIALIZING GENERATOR...'
+      status: 'WAITING FOR FIRST PART...',
+      partsReceived: 0
     });
     setModel(null);
+    setSelectedIds([]);
+    setPendingPatch(null);
+    setValidationReport(null);
+    setVariants([]);
+    setActiveVariantId(null);
+    setShowVariantGrid(false);
+    setReferenceImages(images);
 
-    const steps = [
-      { pct: 15, msg: 'ANALYZING REQUIREMENTS...' },
-      { pct: 35, msg: 'DECOMPOSING GEOMETRY...' },
-      { pct: 55, msg: 'CALCULATING DIMENSIONS...' },
-      { pct: 85, msg: 'ASSEMBLING PARTS...' },
-    ];
-    
-    let stepIdx = 0;
-    
-    if (intervalRef.current) clearInterval(intervalRef.current);
-
-    intervalRef.current = window.setInterval(() => {
-      if (stepIdx < steps.length) {
-          const step = steps[stepIdx];
-          setGenerationState(prev => ({ 
-              ...prev, 
-              progress: step.pct, 
-              status: step.msg 
-          }));
-          stepIdx++;
-      }
-    }, 600);
+    // Parts join the scene the moment they finish streaming
+    const handlePart = (part: ModelPart, progress: StreamProgress) => {
+      setModel(prev => ({
+        name: progress.name || prev?.name || 'UNTITLED',
+        units: progress.units ?? prev?.units,
+        parts: [...(prev?.parts ?? []), part]
+      }));
+
+      const { partsReceived, expectedParts } = progress;
+      const total = Math.max(expectedParts ?? 0, partsReceived);
+      setGenerationState({
+        isGenerating: true,
+        // The last percent is reserved for the final parse
+        progress: expectedParts ? Math.min(99, Math.round((partsReceived / total) * 100)) : 0,
+        status: `RECEIVING PARTS ${partsReceived}${expectedParts ? ` / ${total}` : ''}...`,
+        partsReceived,
+        expectedParts
+      });
+    };
 
     try {
-      const generatedData = await generate3DModel(prompt);
-      
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      setGenerationState({ isGenerating: false, progress: 100, status: 'RENDER COMPLETE' });
-      
-      const partCount = generatedData.parts.length || 1;
-      const speed = partCount === 1 ? 100 : Math.min(500, 2000 / partCount);
+      let result = await generate3DModel(prompt, images, generator, { ...request, preset: stylePreset, onPart: handlePart });
+
+      // Opt-in: let the generator fix floating, disconnected or buried parts
+      if (generatorSettings.autoCorrectPlausibility) {
+        const maxRounds = generatorSettings.maxCorrectionRounds;
+        setModel(result.model);
+        try {
+          result = await correctPlausibility(prompt, images, result, generator, maxRounds, (round, findings) => {
+            setGenerationState({
+              isGenerating: true,
+              progress: Math.round(((round - 1) / maxRounds) * 100),
+              status: `CORRECTING ${findings.length} PLAUSIBILITY ISSUE${findings.length > 1 ? 'S' : ''} (ROUND ${round}/${maxRounds})...`
+            });
+          }, { ...request, preset: stylePreset });
+        } catch (err) {
+          // The uncorrected model is still a valid result
+          const failure = classifyError(err);
+          if (failure.kind === 'cancelled') showNotification('info', "Correction cancelled, keeping the first result");
+          else showNotification('error', `Correction skipped. ${describeGenerationError(failure)}`);
+        }
+      }
+      const { model: generatedData, report } = result;
       
-      setBuildingSpeed(Math.floor(speed));
-      setModel(generatedData);
+      setGenerationState({ isGenerating: false, progress: 100, status: 'RENDER COMPLETE', partsReceived: generatedData.parts.length });
+      commitModel(`Generate "${generatedData.name}"`, previousModel, generatedData);
+
+      // A fresh model starts a fresh conversation for later refinements
+      setConversation([
+        { role: 'user', text: describePrompt(prompt, images) },
+        { role: 'assistant', text: `Generated "${generatedData.name}" with ${generatedData.parts.length} parts.` }
+      ]);
 
       // --- SILENT TRACKING ---
       // Log the successful generation to the database
-      logGeneration(prompt, generatedData.name, partCount);
+      logGeneration(describePrompt(prompt, images), generatedData.name, generatedData.parts.length);
 
+      // Whatever the validator had to fix is shown and tracked
+      if (report.issues.length > 0) {
+        setValidationReport(report);
+        logValidationReport(describePrompt(prompt, images), generatedData.name, report);
+      }
+
+    } catch (err) {
+      // A half-streamed model is not something to refine or export; the previous design comes back instead
+      setModel(previousModel);
+      setReferenceImages([]);
+      reportFailure(err);
+    }
+  }, [model, commitModel, generator, generatorSettings, stylePreset]);
+
+  const handleGenerateVariants = useCallback(async (prompt: string, images: ImageAttachment[], count: number) => {
+    const request = startRequest();
+    // The current design stays until a variant is picked, so a failed or cancelled run loses nothing
+    const previousReferences = referenceImages;
+    setNotification(null);
+    setSelectedIds([]);
+    setPendingPatch(null);
+    setValidationReport(null);
+    setVariants([]);
+    setActiveVariantId(null);
+    setPendingVariantCount(count);
+    setShowVariantGrid(true);
+    setReferenceImages(images);
+    setGenerationState({ isGenerating: true, progress: 0, status: `GENERATING ${count} VARIANTS...` });
+
+    let finished = 0;
+    try {
+      const results = await generateVariants(prompt, images, generator, count, variant => {
+        finished++;
+        setVariants(prev => [...prev, variant].sort((a, b) => a.seed - b.seed));
+        setPendingVariantCount(prev => prev - 1);
+        setGenerationState({ isGenerating: true, progress: Math.round((finished / count) * 100), status: `VARIANT ${finished} / ${count} READY...` });
+        logGeneration(describePrompt(prompt, images), variant.model.name, variant.model.parts.length);
+      }, { ...request, preset: stylePreset });
+
+      setGenerationState({ isGenerating: false, progress: 100, status: 'PICK A VARIANT' });
+      if (results.length < count) {
+        showNotification('info', `${count - results.length} of ${count} variants failed`);
+      }
+    } catch (err) {
+      setShowVariantGrid(false);
+      setVariants([]);
+      setReferenceImages(previousReferences);
+      reportFailure(err);
+    } finally {
+      setPendingVariantCount(0);
+    }
+  }, [referenceImages, generator, stylePreset]);
+
+  const handlePickVariant = (variantId: string) => {
+    const variant = variants.find(v => v.id === variantId);
+    // Picking ends the run, so it waits until every variant has settled
+    if (!variant || pendingVariantCount > 0) return;
+
+    // The variant being left keeps whatever was changed on it
+    setVariants(prev => prev.map(v => (v.id === activeVariantId && model ? { ...v, model } : v)));
+    commitModel(`Use variant V${variant.seed}`, model, variant.model);
+    setSelectedIds([]);
+    setActiveVariantId(variant.id);
+    setPendingPatch(null);
+    setValidationReport(variant.report.issues.length > 0 ? variant.report : null);
+    setConversation([
+      { role: 'user', text: describePrompt(variant.prompt, referenceImages) },
+      { role: 'assistant', text: `Using variant V${variant.seed}: "${variant.model.name}" with ${variant.model.parts.length} parts.` }
+    ]);
+    setShowVariantGrid(false);
+    setGenerationState({ isGenerating: false, progress: 100, status: `VARIANT V${variant.seed} ACTIVE` });
+  };
+
+  const handleRefine = useCallback(async (instruction: string, images: ImageAttachment[] = []) => {
+    if (!model) return;
+    const request = startRequest();
+    setNotification(null);
+    setPendingPatch(null);
+    setGenerationState({ isGenerating: true, progress: 50, status: 'COMPUTING CHANGE SET...' });
+
+    try {
+      const patch = await refine3DModel(model, conversation, instruction, images, generator, { ...request, preset: stylePreset });
+      if (images.length > 0) setReferenceImages(images);
+
+      setConversation(prev => [
+        ...prev,
+        { role: 'user', text: describePrompt(instruction, images) },
+        { role: 'assistant', text: patch.summary }
+      ]);
+      setPendingPatch(patch);
+      setGenerationState({ isGenerating: false, progress: 100, status: 'REVIEW PROPOSED CHANGES' });
+
+    } catch (err) {
+      reportFailure(err);
+    }
+  }, [model, conversation, generator, stylePreset]);
+
+  const handleApplyPatch = () => {
+    if (!model || !pendingPatch) return;
+    const prompt = conversation[conversation.length - 2]?.text || pendingPatch.summary;
+
+    // Patched parts come straight from the generator, so they pass the same validation as new models
+    let validated;
+    try {
+      validated = validateModel(applyModelPatch(model, pendingPatch));
     } catch (err: any) {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      console.error(err);
-      showNotification('error', err.message || "GENERATION FAILED");
-      setGenerationState({
-        isGenerating: false,
-        progress: 0,
-        status: 'ERROR'
-      });
+      showNotification('error', err.message || "CHANGES COULD NOT BE APPLIED");
+      return;
     }
-  }, []);
+    const { model: updated, report } = validated;
+
+    commitModel(`Apply changes: ${pendingPatch.summary}`, model, updated);
+    setPendingPatch(null);
+    setValidationReport(report.issues.length > 0 ? report : null);
+    setGenerationState({ isGenerating: false, progress: 100, status: 'CHANGES APPLIED' });
+    logGeneration(prompt, updated.name, updated.parts.length);
+    if (report.issues.length > 0) logValidationReport(prompt, updated.name, report);
+    showNotification('success', "Changes applied");
+  };
+
+  const handleDiscardPatch = () => {
+    setPendingPatch(null);
+    setConversation(prev => [...prev, { role: 'assistant', text: '(Changes discarded)' }]);
+    setGenerationState({ isGenerating: false, progress: 0, status: 'CHANGES DISCARDED' });
+  };
 
   // --- ACTIONS ---
 
@@ -143,27 +555,77 @@ const App: React.FC = () => {
     showNotification('success', "Project saved successfully");
   };
 
+  const handleSaveFlattened = () => {
+    if (!model) {
+      showNotification('error', "NO MODEL TO SAVE");
+      return;
+    }
+    saveAsPart(model, { flatten: true });
+    setActiveMenu(null);
+    showNotification('success', "Flattened project saved");
+  };
+
   const handleExportSTL = () => {
     if (!model) {
       showNotification('error', "NO MODEL TO EXPORT");
       return;
     }
+    if (exportVisibleOnly && getInheritedIds(model.parts, 'hidden').size === model.parts.length) {
+      showNotification('error', "ALL PARTS ARE HIDDEN");
+      return;
+    }
     const prevStatus = generationState.status;
     setGenerationState(prev => ({ ...prev, status: 'EXPORTING STL...' }));
     
     setTimeout(() => {
-      saveAsSTL(model);
+      saveAsSTL(model, exportUnits, { visibleOnly: exportVisibleOnly });
       setGenerationState(prev => ({ ...prev, status: prevStatus }));
       setActiveMenu(null);
-      showNotification('success', "STL file exported");
+      showNotification('success', `STL file exported (${UNIT_LABELS[exportUnits].toLowerCase()}${exportVisibleOnly ? ', visible parts' : ''})`);
     }, 100);
   };
 
+  // Saved projects go through the same validation as generated models
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Opening the same file again must still trigger a change
+    setActiveMenu(null);
+    if (!file) return;
+
+    try {
+      const { model: opened, report } = validateModel(JSON.parse(await file.text()));
+      commitModel(`Open ${file.name}`, model, opened);
+      setSelectedIds([]);
+      setPendingPatch(null);
+      setVariants([]);
+      setActiveVariantId(null);
+      setShowVariantGrid(false);
+      setConversation([]);
+      setReferenceImages([]);
+      setValidationReport(report.issues.length > 0 ? report : null);
+      setGenerationState({ isGenerating: false, progress: 100, status: 'PROJECT OPENED' });
+      showNotification('success', `Opened "${opened.name}" with ${opened.parts.length} parts`);
+    } catch (err: any) {
+      showNotification('error', `Could not open ${file.name}: ${err.message || 'invalid file'}`);
+    }
+  };
+
   const handleClearScene = () => {
-    setModel(null);
+    // A running generation would keep streaming into the cleared scene
+    if (!isIdle) return;
+    commitModel('Clear scene', model, null);
+    setSelectedIds([]);
+    setPendingPatch(null);
+    setValidationReport(null);
+    setVariants([]);
+    setActiveVariantId(null);
+    setShowVariantGrid(false);
+    setConversation([]);
+    setReferenceImages([]);
+    setGenerationMode('new');
     setActiveMenu(null);
     setGenerationState({ isGenerating: false, progress: 0, status: 'IDLE' });
-    showNotification('info', "Scene cleared");
+    showNotification('info', "Scene cleared. Undo with Ctrl+Z");
   };
 
   const handleCopyConfig = () => {
@@ -183,7 +645,40 @@ const App: React.FC = () => {
 
   const handleShowAbout = () => {
     setActiveMenu(null);
-    showNotification('info', "Complex 3D Model Generator v2.5 | Powered by Gemini");
+    showNotification('info', `Complex 3D Model Generator v2.5 | Powered by ${PROVIDER_LABELS[generatorSettings.provider]}`);
+  };
+
+  const handleOpenSettings = () => {
+    setShowSettings(true);
+    setActiveMenu(null);
+  };
+
+  const handleSaveSettings = (settings: GeneratorSettings) => {
+    setGeneratorSettings(settings);
+    saveGeneratorSettings(settings);
+    setShowSettings(false);
+    showNotification('success', `Generator: ${PROVIDER_LABELS[settings.provider]}`);
+  };
+
+  const handleStylePresetChange = (presetId: string) => {
+    const settings = { ...generatorSettings, stylePresetId: presetId };
+    setGeneratorSettings(settings);
+    saveGeneratorSettings(settings);
+  };
+
+  const handleSavePreset = (preset: StylePreset) => {
+    const presets = [...customPresets, preset];
+    setCustomPresets(presets);
+    saveCustomPresets(presets);
+    handleStylePresetChange(preset.id);
+    showNotification('success', `Style "${preset.name}" saved`);
+  };
+
+  const handleDeletePreset = (presetId: string) => {
+    const presets = customPresets.filter(p => p.id !== presetId);
+    setCustomPresets(presets);
+    saveCustomPresets(presets);
+    if (generatorSettings.stylePresetId === presetId) handleStylePresetChange(STYLE_PRESETS[0].id);
   };
 
   const handleOpenDashboard = () => {
@@ -209,6 +704,8 @@ const App: React.FC = () => {
   return (
     <div className="flex flex-col h-screen w-screen bg-cad-900 text-gray-200 overflow-hidden font-sans">
       
+      <input ref={openInputRef} type="file" accept=".part,.json,application/json" className="hidden" onChange={handleOpenProject} />
+
       {/* Top Menu Bar */}
       <header className="h-10 bg-cad-800 border-b border-cad-600 flex items-center px-4 justify-between flex-shrink-0 z-30" ref={menuRef}>
         
@@ -231,8 +728,15 @@ const App: React.FC = () => {
                     <button onClick={handleSavePart} className={menuItemClass}>
                         <Save className="w-3 h-3 text-cad-accent" /> Save Project (.part)
                     </button>
-                    <button className={`${menuItemClass} opacity-50 cursor-not-allowed`}>
-                        <FolderOpen className="w-3 h-3" /> Open Project...
+                    <button onClick={handleSaveFlattened} className={menuItemClass}>
+                        <Layers className="w-3 h-3 text-cad-accent" /> Save Flattened (.part)
+                    </button>
+                    <button
+                        onClick={() => openInputRef.current?.click()}
+                        disabled={generationState.isGenerating}
+                        className={`${menuItemClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                        <FolderOpen className="w-3 h-3 text-cad-accent" /> Open Project...
                     </button>
                 </div>
              )}
@@ -244,12 +748,82 @@ const App: React.FC = () => {
                 EDIT
              </button>
              {activeMenu === 'edit' && (
-                <div className="absolute top-full left-0 mt-1 w-56 bg-cad-800 border border-cad-600 shadow-xl rounded-b overflow-hidden flex flex-col z-50">
+                <div className="absolute top-full left-0 mt-1 w-72 bg-cad-800 border border-cad-600 shadow-xl rounded-b overflow-hidden flex flex-col z-50">
+                    <button
+                        onClick={() => handleTravelHistory(-1)}
+                        disabled={!isIdle || history.past.length === 0}
+                        className={`${menuItemClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+                    >
+                        <Undo2 className="w-3 h-3" />
+                        <span className="truncate">Undo {history.past[history.past.length - 1]?.label ?? ''}</span>
+                        <span className="ml-auto text-[10px] text-gray-500">Ctrl+Z</span>
+                    </button>
+                    <button
+                        onClick={() => handleTravelHistory(1)}
+                        disabled={!isIdle || history.future.length === 0}
+                        className={`${menuItemClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+                    >
+                        <Redo2 className="w-3 h-3" />
+                        <span className="truncate">Redo {history.future[history.future.length - 1]?.label ?? ''}</span>
+                        <span className="ml-auto text-[10px] text-gray-500 whitespace-nowrap">Ctrl+Shift+Z</span>
+                    </button>
+                    {(history.past.length > 0 || history.future.length > 0) && (
+                        <>
+                            <div className="px-4 pt-2 pb-1 text-[10px] font-mono text-gray-500 border-t border-cad-600">HISTORY</div>
+                            {/* Oldest first; undone steps follow in grey and can be redone by clicking them */}
+                            <div className="max-h-48 overflow-y-auto pb-1">
+                                {history.past.map((command, i) => (
+                                    <button
+                                        key={`past-${i}-${command.timestamp}`}
+                                        onClick={() => handleTravelHistory(i + 1 - history.past.length)}
+                                        disabled={!isIdle}
+                                        title={command.label}
+                                        className={`w-full text-left px-4 py-1 text-[11px] font-mono truncate hover:bg-cad-600 disabled:cursor-not-allowed ${i === history.past.length - 1 ? 'text-cad-accent' : 'text-gray-300'}`}
+                                    >
+                                        {command.label}
+                                    </button>
+                                ))}
+                                {[...history.future].reverse().map((command, i) => (
+                                    <button
+                                        key={`future-${i}-${command.timestamp}`}
+                                        onClick={() => handleTravelHistory(i + 1)}
+                                        disabled={!isIdle}
+                                        title={command.label}
+                                        className="w-full text-left px-4 py-1 text-[11px] font-mono truncate italic text-gray-500 hover:bg-cad-600 disabled:cursor-not-allowed"
+                                    >
+                                        {command.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                    <div className="border-t border-cad-600 my-1"></div>
+                    <button onClick={handleCopy} disabled={!model || selectedIds.length === 0} className={`${menuItemClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                        <Copy className="w-3 h-3" /> Copy Parts
+                        <span className="ml-auto text-[10px] text-gray-500">Ctrl+C</span>
+                    </button>
+                    <button onClick={handlePaste} disabled={!isIdle || !clipboard} className={`${menuItemClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                        <ClipboardPaste className="w-3 h-3" /> Paste {clipboard ? `${clipboard.parts.length} Part${clipboard.parts.length > 1 ? 's' : ''}` : 'Parts'}
+                        <span className="ml-auto text-[10px] text-gray-500">Ctrl+V</span>
+                    </button>
+                    <button onClick={handleDuplicate} disabled={!isEditable || selectedIds.length === 0} className={`${menuItemClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                        <CopyPlus className="w-3 h-3" /> Duplicate
+                        <span className="ml-auto text-[10px] text-gray-500">Ctrl+D</span>
+                    </button>
+                    <button onClick={handleDelete} disabled={!isEditable || selectedIds.length === 0} className={`${menuItemClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                        <Trash2 className="w-3 h-3" /> Delete
+                        <span className="ml-auto text-[10px] text-gray-500">Del</span>
+                    </button>
+                    <div className="border-t border-cad-600 my-1"></div>
                      <button onClick={handleCopyConfig} className={menuItemClass}>
                         <Copy className="w-3 h-3 text-blue-400" /> Copy Configuration
                     </button>
                     <div className="border-t border-cad-600 my-1"></div>
-                    <button onClick={handleClearScene} className={`${menuItemClass} text-red-400 hover:text-red-300`}>
+                    <button onClick={handleOpenSettings} className={menuItemClass}>
+                        <Settings className="w-3 h-3" /> Generation Settings...
+                    </button>
+                    <div className="border-t border-cad-600 my-1"></div>
+                    <button onClick={handleClearScene} disabled={!isIdle} className={`${menuItemClass} text-red-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed`}>
                         <Trash2 className="w-3 h-3" /> Clear Scene
                     </button>
                 </div>
@@ -262,22 +836,15 @@ const App: React.FC = () => {
                 VIEW
              </button>
              {activeMenu === 'view' && (
-                <div className="absolute top-full left-0 mt-1 w-40 bg-cad-800 border border-cad-600 shadow-xl rounded-b overflow-hidden flex flex-col z-50">
-                    <button onClick={() => handleViewChange('ISO')} className={menuItemClass}>
-                        <Eye className="w-3 h-3" /> Isometric
-                    </button>
-                    <button onClick={() => handleViewChange('TOP')} className={menuItemClass}>
-                        <span className="w-3 text-center font-bold">T</span> Top View
-                    </button>
-                     <button onClick={() => handleViewChange('BOTTOM')} className={menuItemClass}>
-                        <span className="w-3 text-center font-bold">B</span> Bottom View
-                    </button>
-                    <button onClick={() => handleViewChange('FRONT')} className={menuItemClass}>
-                        <span className="w-3 text-center font-bold">F</span> Front View
-                    </button>
-                    <button onClick={() => handleViewChange('SIDE')} className={menuItemClass}>
-                        <span className="w-3 text-center font-bold">S</span> Side View
-                    </button>
+                <div className="absolute top-full left-0 mt-1 w-48 bg-cad-800 border border-cad-600 shadow-xl rounded-b overflow-hidden flex flex-col z-50">
+                    {STANDARD_VIEWS.map(view => (
+                        <button key={view.id} onClick={() => handleViewChange(view.id)} className={menuItemClass}>
+                            {view.id.startsWith('ISO')
+                                ? <Eye className="w-3 h-3" />
+                                : <span className="w-3 text-center font-bold">{view.label[0]}</span>}
+                            {view.label}
+                        </button>
+                    ))}
                 </div>
              )}
            </div>
@@ -289,8 +856,30 @@ const App: React.FC = () => {
              </button>
              {activeMenu === 'export' && (
                 <div className="absolute top-full left-0 mt-1 w-56 bg-cad-800 border border-cad-600 shadow-xl rounded-b overflow-hidden flex flex-col z-50">
+                    <div className="px-4 py-2 flex items-center gap-1 text-[10px] font-mono text-gray-500 border-b border-cad-600">
+                        <span className="mr-1">UNITS:</span>
+                        {(Object.keys(UNIT_LABELS) as LengthUnit[]).map(unit => (
+                            <button
+                                key={unit}
+                                onClick={() => setExportUnits(unit)}
+                                title={UNIT_LABELS[unit]}
+                                className={`px-1.5 py-0.5 rounded ${exportUnits === unit ? 'bg-cad-accent text-cad-900 font-bold' : 'hover:bg-cad-600 text-gray-300'}`}
+                            >
+                                {unit}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="px-4 py-2 flex items-center gap-2 text-xs font-mono text-gray-300 border-b border-cad-600 cursor-pointer hover:bg-cad-600">
+                        <input
+                            type="checkbox"
+                            checked={exportVisibleOnly}
+                            onChange={(e) => setExportVisibleOnly(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        Visible parts only
+                    </label>
                     <button onClick={handleExportSTL} className={menuItemClass}>
-                        <FileBox className="w-3 h-3 text-green-400" /> Export as .STL
+                        <FileBox className="w-3 h-3 text-green-400" /> Export as .STL ({exportUnits})
                     </button>
                     <button className={`${menuItemClass} opacity-50 cursor-not-allowed`}>
                         <FileJson className="w-3 h-3" /> Export as .OBJ
@@ -330,11 +919,58 @@ const App: React.FC = () => {
           <div className="flex-1 relative">
              <Viewer3D 
                 model={model} 
-                buildingSpeed={buildingSpeed} 
+                referenceImages={referenceImages}
                 viewState={viewState}
                 onViewChange={handleViewChange}
+                findings={findings}
+                selectedIds={selectedIds}
+                onSelect={handleSelect}
+                onPartChange={isEditable ? handlePartChange : undefined}
+                onChangeParts={isEditable ? handleChangeParts : undefined}
+                onAddParts={isIdle ? handleAddParts : undefined}
+                onChangeDimensions={isEditable ? handleChangeDimensions : undefined}
+                onChangeBookmarks={isEditable ? handleChangeBookmarks : undefined}
+                onChangeSections={isEditable ? handleChangeSections : undefined}
              />
              
+             {/* Refinement Change Set */}
+             {model && pendingPatch && (
+                <ChangeSetReview
+                    model={model}
+                    patch={pendingPatch}
+                    onApply={handleApplyPatch}
+                    onDiscard={handleDiscardPatch}
+                />
+             )}
+
+             {/* Variant Tray & Comparison */}
+             {variants.length > 0 && !showVariantGrid && (
+                <VariantTray
+                    variants={variants}
+                    activeVariantId={activeVariantId}
+                    canPick={pendingVariantCount === 0}
+                    onPick={handlePickVariant}
+                    onCompare={() => setShowVariantGrid(true)}
+                />
+             )}
+             {showVariantGrid && (
+                <VariantGrid
+                    variants={variants}
+                    pendingCount={pendingVariantCount}
+                    activeVariantId={activeVariantId}
+                    onPick={handlePickVariant}
+                    onClose={() => setShowVariantGrid(false)}
+                />
+             )}
+
+             {/* Validation Issues of the current model */}
+             {validationReport && !pendingPatch && (
+                <ValidationReportPanel
+                    report={validationReport}
+                    onClose={() => setValidationReport(null)}
+                />
+             )}
+
              {/* Notification Toast */}
              {notification && (
                 <div className={`absolute top-4 right-4 border px-4 py-3 rounded shadow-xl flex items-center gap-3 animate-in fade-in slide-in-from-top-4 duration-300 z-50 max-w-sm
@@ -357,13 +993,50 @@ const App: React.FC = () => {
           
           {/* Bottom Command Bar */}
           <div className="flex-shrink-0 z-10">
-            <InputPanel onGenerate={handleGenerate} generationState={generationState} />
+            <InputPanel
+                onGenerate={(prompt, images, variantCount) => (variantCount > 1 ? handleGenerateVariants(prompt, images, variantCount) : handleGenerate(prompt, images))}
+                onRefine={handleRefine}
+                onCancel={handleCancel}
+                generationState={generationState}
+                mode={generationMode}
+                onModeChange={setGenerationMode}
+                canRefine={!!model}
+                conversation={conversation}
+                stylePresets={stylePresets}
+                stylePresetId={stylePreset.id}
+                onStylePresetChange={handleStylePresetChange}
+                onSavePreset={handleSavePreset}
+                onDeletePreset={handleDeletePreset}
+            />
           </div>
         </div>
 
-        {/* Right: Scene Graph */}
-        <SceneGraph model={model} />
+        {/* Right: Scene Graph and Inspector */}
+        <div className="h-full w-72 flex-shrink-0 flex flex-col border-l border-cad-600">
+          <SceneGraph
+            model={model}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            onChangeParts={isEditable ? handleChangeParts : undefined}
+          />
+          <PropertiesInspector
+            model={model}
+            selectedIds={selectedIds}
+            isEditable={isEditable}
+            onChangeParts={handleChangeParts}
+            onRenamePart={handleRenamePart}
+            onRenameModel={handleRenameModel}
+          />
+        </div>
       </div>
+
+      {showSettings && (
+        <SettingsPanel
+          settings={generatorSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 };
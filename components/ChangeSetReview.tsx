@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { GeneratedModel, ModelPatch } from '../types';
+import { getChangedFields, getRemovalSet } from '../services/patchService';
+import { GitCompare, Plus, Minus, PenLine, Check, X } from 'lucide-react';
+
+interface ChangeSetReviewProps {
+  model: GeneratedModel;
+  patch: ModelPatch;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const ChangeSetReview: React.FC<ChangeSetReviewProps> = ({ model, patch, onApply, onDiscard }) => {
+  const partsById = useMemo(() => new Map(model.parts.map(p => [p.id, p])), [model]);
+  const removed = useMemo(() => Array.from(getRemovalSet(model.parts, patch.removed)), [model, patch]);
+  const modified = useMemo(
+    () => patch.modified
+      .filter(change => partsById.has(change.id))
+      .map(change => ({ change, part: partsById.get(change.id)!, fields: getChangedFields(partsById.get(change.id)!, change) }))
+      .filter(entry => entry.fields.length > 0),
+    [patch, partsById]
+  );
+
+  const isEmpty = patch.added.length === 0 && removed.length === 0 && modified.length === 0 && !patch.name;
+
+  return (
+    <div className="absolute bottom-4 left-4 w-80 max-h-[60%] flex flex-col bg-cad-800/95 border border-cad-600 rounded shadow-xl backdrop-blur-sm font-mono text-xs z-40">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-cad-600 text-white font-bold">
+        <GitCompare className="w-4 h-4 text-cad-accent" />
+        <span>PROPOSED CHANGES</span>
+      </div>
+      <p className="px-3 py-2 text-gray-300 border-b border-cad-700 font-sans">{patch.summary}</p>
+
+      {/* Change List */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {isEmpty && <div className="px-3 py-2 text-gray-500 italic">No changes proposed</div>}
+
+        {patch.name && patch.name !== model.name && (
+          <div className="flex items-center gap-2 px-3 py-1 text-yellow-400">
+            <PenLine className="w-3 h-3" />
+            <span className="truncate">Rename → {patch.name}</span>
+          </div>
+        )}
+
+        {patch.added.map(part => (
+          <div key={`add-${part.id}`} className="flex items-center gap-2 px-3 py-1 text-green-400">
+            <Plus className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{part.description || part.id}</span>
+            <span className="ml-auto text-gray-500">{part.type}</span>
+          </div>
+        ))}
+
+        {removed.map(id => (
+          <div key={`remove-${id}`} className="flex items-center gap-2 px-3 py-1 text-red-400">
+            <Minus className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{partsById.get(id)?.description || id}</span>
+            {!patch.removed.includes(id) && <span className="ml-auto text-gray-500">dependent</span>}
+          </div>
+        ))}
+
+        {modified.map(({ change, part, fields }) => (
+          <div key={`modify-${change.id}`} className="flex items-center gap-2 px-3 py-1 text-yellow-400">
+            <PenLine className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{part.description || part.id}</span>
+            <span className="ml-auto text-gray-500 truncate" title={fields.join(', ')}>{fields.join(', ')}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2 p-2 border-t border-cad-600">
+        <button
+          onClick={onApply}
+          disabled={isEmpty}
+          className="flex-1 flex items-center justify-center gap-2 py-1.5 rounded bg-cad-accent text-cad-900 font-bold hover:bg-cyan-400 transition-colors disabled:opacity-50"
+        >
+          <Check className="w-3 h-3" /> APPLY
+        </button>
+        <button
+          onClick={onDiscard}
+          className="flex-1 flex items-center justify-center gap-2 py-1.5 rounded bg-cad-700 text-gray-200 hover:bg-cad-600 transition-colors"
+        >
+          <X className="w-3 h-3" /> DISCARD
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeSetReview;
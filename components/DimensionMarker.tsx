@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { Dimension, LengthUnit } from '../types';
+import { formatDimension } from '../services/measureService';
+import { X } from 'lucide-react';
+
+interface DimensionMarkerProps {
+  dimension: Dimension;
+  units: LengthUnit;
+  isPending?: boolean; // Measured but not kept yet, the label is drawn dashed
+  onRemove?: () => void; // Shows a remove button on the label
+}
+
+const DIMENSION_COLOR = '#06b6d4';
+const CIRCLE_SEGMENTS = 64;
+
+// Dimension lines are drawn on top of the parts so they stay readable inside the model
+const lineProps = { color: DIMENSION_COLOR, lineWidth: 1.5, depthTest: false, renderOrder: 10 };
+
+// Lines and label of one dimension, in model space (rendered inside the model group)
+const DimensionMarker: React.FC<DimensionMarkerProps> = ({ dimension, units, isPending = false, onRemove }) => {
+  const points = useMemo(() => dimension.points.map(point => new THREE.Vector3(...point)), [dimension.points]);
+
+  const { segments, anchor } = useMemo(() => {
+    if (dimension.kind === 'angle') {
+      // Both legs from the corner, labelled next to the corner
+      const [a, vertex, b] = points;
+      return { segments: [[a, vertex, b]], anchor: vertex };
+    }
+    if (dimension.kind === 'radius') {
+      // The fitted circle plus its radius to the first picked point
+      const [center, a, b] = points;
+      const u = a.clone().sub(center);
+      const normal = u.clone().cross(b.clone().sub(center)).normalize();
+      const circle = Array.from({ length: CIRCLE_SEGMENTS + 1 }, (_, i) =>
+        u.clone().applyAxisAngle(normal, (i / CIRCLE_SEGMENTS) * Math.PI * 2).add(center));
+      return { segments: [circle, [center, a]], anchor: center.clone().lerp(a, 0.5) };
+    }
+    const [from, to] = points;
+    return { segments: [[from, to]], anchor: from.clone().lerp(to, 0.5) };
+  }, [dimension.kind, points]);
+
+  return (
+    <group>
+      {segments.map((segment, i) => (
+        <Line key={i} points={segment} {...lineProps} />
+      ))}
+      {points.filter((_, i) => dimension.kind !== 'radius' || i > 0).map((point, i) => (
+        <Html key={i} position={point} center style={{ pointerEvents: 'none' }}>
+          <div className="w-1.5 h-1.5 rounded-full bg-cad-accent ring-1 ring-cad-900" />
+        </Html>
+      ))}
+      <Html position={anchor} center zIndexRange={[20, 10]}>
+        <div className={`flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 font-mono text-[10px] shadow-xl border ${isPending ? 'bg-cad-900/80 border-dashed border-cad-accent text-cad-accent' : 'bg-cad-900/95 border-cad-accent text-white'}`}>
+          <span>{formatDimension(dimension, units)}</span>
+          {onRemove && (
+            <button onClick={onRemove} className="text-gray-500 hover:text-red-400" title="Remove dimension">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      </Html>
+    </group>
+  );
+};
+
+export default DimensionMarker;
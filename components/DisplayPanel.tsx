@@ -0,0 +1,73 @@
+import React from 'react';
+import { COLOR_BY_OPTIONS, ColorBy, DISPLAY_MODES, DisplayMode } from '../services/displayService';
+import { Palette, X } from 'lucide-react';
+
+interface DisplayPanelProps {
+  displayMode: DisplayMode;
+  colorBy: ColorBy;
+  explode: number; // 0 is assembled
+  isEditingPaused: boolean; // Shows why the gizmo and arranging are gone while exploded
+  onDisplayModeChange: (mode: DisplayMode) => void;
+  onColorByChange: (colorBy: ColorBy) => void;
+  onExplodeChange: (explode: number) => void;
+}
+
+// Render style, part colors and exploded view; none of it is saved with the model
+const DisplayPanel: React.FC<DisplayPanelProps> = ({ displayMode, colorBy, explode, isEditingPaused, onDisplayModeChange, onColorByChange, onExplodeChange }) => (
+  <div className="absolute top-4 right-20 w-56 flex flex-col gap-2 bg-cad-900/90 border border-cad-600 rounded p-2 font-mono text-[10px] text-cad-accent z-10 shadow-xl">
+    <div className="flex items-center gap-2 text-white font-bold">
+      <Palette className="w-3 h-3" /> DISPLAY
+    </div>
+    <div className="flex flex-col gap-0.5">
+      {DISPLAY_MODES.map(option => (
+        <button
+          key={option.mode}
+          onClick={() => onDisplayModeChange(option.mode)}
+          className={`text-left px-1.5 py-1 rounded transition-colors ${option.mode === displayMode ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <div className="flex items-center gap-1 pt-2 border-t border-cad-600/50">
+      <span className="text-gray-500 mr-1">COLOR</span>
+      {COLOR_BY_OPTIONS.map(option => (
+        <button
+          key={option.colorBy}
+          onClick={() => onColorByChange(option.colorBy)}
+          className={`flex-1 py-1 rounded transition-colors ${option.colorBy === colorBy ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+          title={`Color parts by ${option.label.toLowerCase()}`}
+        >
+          {option.label.toUpperCase()}
+        </button>
+      ))}
+    </div>
+    <div className="flex flex-col gap-1 pt-2 border-t border-cad-600/50">
+      <div className="flex items-center gap-1">
+        <span className="text-gray-500">EXPLODE</span>
+        <span className="text-white ml-auto">{Math.round(explode * 100)}%</span>
+        <button
+          onClick={() => onExplodeChange(0)}
+          disabled={explode === 0}
+          className="px-1 rounded hover:bg-cad-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-cad-accent"
+          title="Assemble"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={1.5}
+        step={0.01}
+        value={explode}
+        onChange={(e) => onExplodeChange(parseFloat(e.target.value))}
+        className="w-full accent-cyan-500"
+        title="Pull the parts away from the assembly centroid, group by group"
+      />
+      {isEditingPaused && <div className="text-gray-400">Editing is paused while the view is exploded</div>}
+    </div>
+  </div>
+);
+
+export default DisplayPanel;
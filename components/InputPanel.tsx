@@ -1,26 +1,140 @@
-import React, { useState } from 'react';
-import { GenerationState } from '../types';
-import { Terminal, Send, Loader2, Command } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, GenerationMode, GenerationState, ImageAttachment, StylePreset } from '../types';
+import { MAX_REFERENCE_IMAGES, MAX_REFERENCE_IMAGE_BYTES, MAX_VARIANTS } from '../constants';
+import TemplateGallery from './TemplateGallery';
+import { Terminal, Send, Loader2, Command, Sparkles, MessageSquare, ImagePlus, X, Square, BookOpen } from 'lucide-react';
 
 interface InputPanelProps {
-  onGenerate: (prompt: string) => void;
+  onGenerate: (prompt: string, images: ImageAttachment[], variantCount: number) => void;
+  onRefine: (instruction: string, images: ImageAttachment[]) => void;
+  onCancel: () => void; // Aborts the request in flight
   generationState: GenerationState;
+  mode: GenerationMode;
+  onModeChange: (mode: GenerationMode) => void;
+  canRefine: boolean; // Refinement needs a model to work on
+  conversation: ChatMessage[];
+  stylePresets: StylePreset[];
+  stylePresetId: string;
+  onStylePresetChange: (presetId: string) => void;
+  onSavePreset: (preset: StylePreset) => void;
+  onDeletePreset: (presetId: string) => void;
 }
 
-const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, generationState }) => {
+const readImageFile = (file: File): Promise<ImageAttachment> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: `${file.name}-${file.size}-${file.lastModified}`,
+      name: file.name || 'pasted-image',
+      mimeType: file.type,
+      dataUrl: reader.result as string,
+    });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const InputPanel: React.FC<InputPanelProps> = ({
+  onGenerate, onRefine, onCancel, generationState, mode, onModeChange, canRefine, conversation,
+  stylePresets, stylePresetId, onStylePresetChange, onSavePreset, onDeletePreset
+}) => {
   const [prompt, setPrompt] = useState('');
+  const [images, setImages] = useState<ImageAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [showGallery, setShowGallery] = useState(false);
+  const threadRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isRefining = mode === 'refine' && canRefine;
+
+  // Keep the latest message in view
+  useEffect(() => {
+    if (threadRef.current) threadRef.current.scrollTop = threadRef.current.scrollHeight;
+  }, [conversation, isRefining]);
+
+  const addImages = async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length === 0) return;
+
+    const tooLarge = imageFiles.filter(file => file.size > MAX_REFERENCE_IMAGE_BYTES);
+    const accepted = imageFiles.filter(file => file.size <= MAX_REFERENCE_IMAGE_BYTES);
+    setAttachmentError(tooLarge.length > 0 ? `${tooLarge.length} image(s) over ${MAX_REFERENCE_IMAGE_BYTES / 1024 / 1024} MB skipped` : null);
+
+    try {
+      const loaded = await Promise.all(accepted.map(readImageFile));
+      const merged = [...images, ...loaded.filter(img => !images.some(p => p.id === img.id))];
+      if (merged.length > MAX_REFERENCE_IMAGES) {
+        setAttachmentError(`Only ${MAX_REFERENCE_IMAGES} reference images are sent per prompt`);
+      }
+      setImages(merged.slice(0, MAX_REFERENCE_IMAGES));
+    } catch (err) {
+      console.error(err);
+      setAttachmentError('Could not read image');
+    }
+  };
+
+  const removeImage = (id: string) => {
+    setImages(prev => prev.filter(img => img.id !== id));
+    setAttachmentError(null);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.some(file => file.type.startsWith('image/'))) {
+      e.preventDefault();
+      addImages(files);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (generationState.isGenerating) return;
+    addImages(Array.from(e.dataTransfer.files));
+  };
+
+  const canSubmit = (!!prompt.trim() || images.length > 0) && !generationState.isGenerating;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim() && !generationState.isGenerating) {
-      onGenerate(prompt);
+    if (canSubmit) {
+      if (isRefining) onRefine(prompt, images);
+      else onGenerate(prompt, images, variantCount);
       setPrompt('');
+      setImages([]);
+      setAttachmentError(null);
     }
   };
 
+  const handleUseTemplate = (text: string) => {
+    setPrompt(text);
+    setShowGallery(false);
+  };
+
+  const modeBtnClass = (isActive: boolean) =>
+    `flex items-center gap-1 px-2 py-0.5 rounded transition-colors disabled:opacity-40 ${isActive ? 'bg-cad-accent text-cad-900 font-bold' : 'text-gray-400 hover:text-white hover:bg-cad-700'}`;
+
   return (
-    <div className="w-full bg-cad-800 border-t border-cad-600 p-2 flex flex-col gap-2">
-      
+    <div
+      className={`relative w-full bg-cad-800 border-t p-2 flex flex-col gap-2 transition-colors ${isDragging ? 'border-cad-accent bg-cad-700' : 'border-cad-600'}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+
+      {showGallery && (
+        <TemplateGallery
+          presets={stylePresets}
+          activePresetId={stylePresetId}
+          onSelectPreset={onStylePresetChange}
+          onSavePreset={onSavePreset}
+          onDeletePreset={onDeletePreset}
+          onUseTemplate={handleUseTemplate}
+          onClose={() => setShowGallery(false)}
+        />
+      )}
+
       {/* Status / History Line */}
       <div className="flex items-center gap-2 px-2 text-xs font-mono text-cad-accent">
         <Terminal className="w-3 h-3" />
@@ -31,38 +145,166 @@ const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, generationState })
         {generationState.isGenerating && (
           <span className="ml-auto text-white">{generationState.progress}%</span>
         )}
+
+        {/* Style Preset */}
+        <label className={`flex items-center gap-1 text-gray-400 ${generationState.isGenerating ? '' : 'ml-auto'}`} title="Style guidance, part budget, palette and temperature">
+          STYLE
+          <select
+            value={stylePresetId}
+            onChange={(e) => onStylePresetChange(e.target.value)}
+            disabled={generationState.isGenerating}
+            className="bg-cad-900 border border-cad-600 rounded px-1 text-white focus:outline-none focus:border-cad-accent disabled:opacity-40"
+          >
+            {stylePresets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {/* Variant Count */}
+        {!isRefining && (
+          <label className="flex items-center gap-1 text-gray-400" title="Generate several alternatives to compare">
+            VARIANTS
+            <select
+              value={variantCount}
+              onChange={(e) => setVariantCount(parseInt(e.target.value, 10))}
+              disabled={generationState.isGenerating}
+              className="bg-cad-900 border border-cad-600 rounded px-1 text-white focus:outline-none focus:border-cad-accent disabled:opacity-40"
+            >
+              {Array.from({ length: MAX_VARIANTS }, (_, idx) => idx + 1).map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {/* Mode Toggle */}
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => onModeChange('new')}
+            disabled={generationState.isGenerating}
+            className={modeBtnClass(!isRefining)}
+            title="Generate a new model from scratch"
+          >
+            <Sparkles className="w-3 h-3" /> NEW
+          </button>
+          <button
+            type="button"
+            onClick={() => onModeChange('refine')}
+            disabled={generationState.isGenerating || !canRefine}
+            className={modeBtnClass(isRefining)}
+            title={canRefine ? "Edit the current model with follow-up prompts" : "Generate a model first"}
+          >
+            <MessageSquare className="w-3 h-3" /> REFINE
+          </button>
+        </div>
       </div>
 
+      {/* Conversation Thread */}
+      {isRefining && conversation.length > 0 && (
+        <div ref={threadRef} className="max-h-32 overflow-y-auto flex flex-col gap-1 px-2 text-xs">
+          {conversation.map((message, idx) => (
+            <div key={idx} className={`flex gap-2 ${message.role === 'user' ? 'text-white' : 'text-gray-400'}`}>
+              <span className={`font-mono flex-shrink-0 ${message.role === 'user' ? 'text-cad-accent' : 'text-gray-500'}`}>
+                {message.role === 'user' ? 'YOU>' : 'SYS>'}
+              </span>
+              <span className="break-words">{message.text}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Reference Images */}
+      {(images.length > 0 || attachmentError) && (
+        <div className="flex items-center gap-2 px-2">
+          {images.map(img => (
+            <div key={img.id} className="relative w-12 h-12 rounded border border-cad-600 overflow-hidden group/thumb" title={img.name}>
+              <img src={img.dataUrl} alt={img.name} className="w-full h-full object-cover" />
+              <button
+                type="button"
+                onClick={() => removeImage(img.id)}
+                className="absolute top-0 right-0 bg-black/70 text-white p-0.5 opacity-0 group-hover/thumb:opacity-100 transition-opacity"
+                title="Remove image"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {attachmentError && <span className="text-[10px] font-mono text-yellow-500">{attachmentError}</span>}
+        </div>
+      )}
+
       {/* Command Input Area */}
       <form onSubmit={handleSubmit} className="flex gap-0 items-stretch bg-cad-900 border border-cad-600 rounded shadow-inner overflow-hidden">
         <div className="px-3 py-3 bg-cad-700 text-gray-400 flex items-center border-r border-cad-600">
-           <Command className="w-4 h-4" />
+           {isRefining ? <MessageSquare className="w-4 h-4" /> : <Command className="w-4 h-4" />}
         </div>
         <input
           type="text"
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Enter object description command..."
+          onPaste={handlePaste}
+          placeholder={isRefining ? "Describe a change, e.g. make the legs taller..." : "Enter object description command or drop a sketch..."}
           disabled={generationState.isGenerating}
           className="flex-1 bg-transparent px-4 py-3 text-sm font-mono text-white placeholder-gray-600 focus:outline-none focus:bg-cad-900/50"
           autoFocus
         />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addImages(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => setShowGallery(prev => !prev)}
+          disabled={generationState.isGenerating}
+          className={`px-3 hover:text-white hover:bg-cad-700 transition-colors disabled:opacity-50 border-l border-cad-600 ${showGallery ? 'text-cad-accent' : 'text-gray-400'}`}
+          title="Prompt templates and styles"
+        >
+          <BookOpen className="w-4 h-4" />
+        </button>
         <button
-          type="submit"
-          disabled={!prompt.trim() || generationState.isGenerating}
-          className="px-6 py-2 bg-cad-700 hover:bg-cad-600 text-white font-mono text-xs uppercase tracking-wider transition-colors disabled:opacity-50 border-l border-cad-600"
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={generationState.isGenerating || images.length >= MAX_REFERENCE_IMAGES}
+          className="px-3 text-gray-400 hover:text-white hover:bg-cad-700 transition-colors disabled:opacity-50 border-l border-cad-600"
+          title="Attach sketch or reference photo"
         >
-          {generationState.isGenerating ? (
-            <Loader2 className="w-4 h-4 animate-spin" />
-          ) : (
+          <ImagePlus className="w-4 h-4" />
+        </button>
+        {generationState.isGenerating ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="group/cancel px-6 py-2 bg-cad-700 hover:bg-red-900 text-white font-mono text-xs uppercase tracking-wider transition-colors border-l border-cad-600"
+            title="Cancel generation"
+          >
             <span className="flex items-center gap-2">
-              Build <Send className="w-3 h-3" />
+              <Loader2 className="w-4 h-4 animate-spin group-hover/cancel:hidden" />
+              <Square className="w-3 h-3 hidden group-hover/cancel:block" /> Cancel
             </span>
-          )}
-        </button>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="px-6 py-2 bg-cad-700 hover:bg-cad-600 text-white font-mono text-xs uppercase tracking-wider transition-colors disabled:opacity-50 border-l border-cad-600"
+          >
+            <span className="flex items-center gap-2">
+              {isRefining ? 'Refine' : 'Build'} <Send className="w-3 h-3" />
+            </span>
+          </button>
+        )}
       </form>
     </div>
   );
 };
 
-export default InputPanel;
\ No newline at end of file
+export default InputPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { DimensionKind } from '../types';
+import { MEASURE_TOOLS, MeasureTool } from '../services/measureService';
+import { Eye, EyeOff, Pin, Ruler, Trash2 } from 'lucide-react';
+
+interface MeasurePanelProps {
+  tool: MeasureTool; // Active tool
+  pickCount: number; // Points picked so far for the active tool
+  error: string | null;
+  dimensionCount: number; // Dimensions saved with the model
+  showDimensions: boolean;
+  onSelectTool: (kind: DimensionKind) => void;
+  onToggleDimensions: () => void;
+  onKeep?: () => void; // Set while there is a result that can be kept with the model
+  onClearDimensions?: () => void;
+}
+
+// Picks go to the active tool; the latest result can be kept with the model
+const MeasurePanel: React.FC<MeasurePanelProps> = ({ tool, pickCount, error, dimensionCount, showDimensions, onSelectTool, onToggleDimensions, onKeep, onClearDimensions }) => (
+  <div className="absolute top-4 right-20 w-56 flex flex-col gap-2 bg-cad-900/90 border border-cad-600 rounded p-2 font-mono text-[10px] text-cad-accent z-10 shadow-xl">
+    <div className="flex items-center gap-2 text-white font-bold">
+      <Ruler className="w-3 h-3" /> MEASURE
+    </div>
+    <div className="flex flex-col gap-0.5">
+      {MEASURE_TOOLS.map(option => (
+        <button
+          key={option.kind}
+          onClick={() => onSelectTool(option.kind)}
+          className={`text-left px-1.5 py-1 rounded transition-colors ${option.kind === tool.kind ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <div className="text-gray-400">
+      {tool.hint}{tool.picks > 1 && ` (${pickCount}/${tool.picks})`}
+    </div>
+    {error && <div className="text-red-400">{error}</div>}
+    {onKeep && (
+      <button onClick={onKeep} className="flex items-center justify-center gap-1 px-1.5 py-1 rounded border border-cad-accent hover:bg-cad-accent hover:text-cad-900">
+        <Pin className="w-3 h-3" /> KEEP DIMENSION
+      </button>
+    )}
+    <div className="flex items-center gap-1 pt-2 border-t border-cad-600/50 text-gray-400">
+      <span>SAVED: <span className="text-white">{dimensionCount}</span></span>
+      <button
+        onClick={onToggleDimensions}
+        className="ml-auto p-1 rounded hover:bg-cad-700 hover:text-white"
+        title={showDimensions ? 'Hide saved dimensions' : 'Show saved dimensions'}
+      >
+        {showDimensions ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+      </button>
+      {onClearDimensions && (
+        <button
+          onClick={onClearDimensions}
+          disabled={dimensionCount === 0}
+          className="p-1 rounded hover:bg-cad-700 hover:text-red-400 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+          title="Remove all saved dimensions"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+export default MeasurePanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { PrimitiveType, ShapeType } from '../types';
+import { getPrimitives } from '../services/primitiveRegistry';
+import { Box, Circle, Cylinder, Cone, Torus, Gem, Hexagon, Spline, FolderPlus, Shapes, LucideIcon } from 'lucide-react';
+
+interface PrimitivePaletteProps {
+  onInsert: (type: PrimitiveType) => void; // Click: the viewer places the part at the grid origin
+}
+
+// Palette icons of the built-in primitives; plugin primitives get a generic one
+const PRIMITIVE_ICONS: Partial<Record<PrimitiveType, LucideIcon>> = {
+  [ShapeType.BOX]: Box,
+  [ShapeType.SPHERE]: Circle,
+  [ShapeType.CYLINDER]: Cylinder,
+  [ShapeType.CONE]: Cone,
+  [ShapeType.TORUS]: Torus,
+  [ShapeType.ICOSAHEDRON]: Gem,
+  [ShapeType.EXTRUDE]: Hexagon,
+  [ShapeType.REVOLVE]: Spline,
+  [ShapeType.GROUP]: FolderPlus,
+};
+
+// Drag data type of palette entries dropped onto the viewport
+export const PRIMITIVE_DRAG_TYPE = 'application/x-cad-primitive';
+
+// One button per registered primitive. Entries can also be dragged; the viewport handles the drop
+const PrimitivePalette: React.FC<PrimitivePaletteProps> = ({ onInsert }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-cad-900/90 border border-cad-600 rounded px-2 py-1 font-mono text-[10px] text-cad-accent z-10 shadow-xl">
+    <span className="text-gray-500 mr-1">ADD</span>
+    {getPrimitives().map(primitive => {
+      const Icon = PRIMITIVE_ICONS[primitive.type] ?? Shapes;
+      return (
+        <button
+          key={primitive.type}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(PRIMITIVE_DRAG_TYPE, primitive.type);
+            e.dataTransfer.effectAllowed = 'copy';
+          }}
+          onClick={() => onInsert(primitive.type)}
+          title={`Add ${primitive.label} (click: at origin, drag: onto the ground)`}
+          className="p-1 rounded hover:bg-cad-700 hover:text-white cursor-grab active:cursor-grabbing"
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default PrimitivePalette;
@@ -0,0 +1,359 @@
+import React, { useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { BooleanOperation, GeneratedModel, ModelPart, PartChange } from '../types';
+import { getPrimitive, getPrimitives, resolveArgs } from '../services/primitiveRegistry';
+import { reparentPart, resolveParents } from '../services/hierarchyService';
+import { changePartType } from '../services/modelingService';
+import { checkArgValue } from '../services/validationService';
+import { evaluateExpression, formatNumber } from '../services/expressionService';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface PropertiesInspectorProps {
+  model: GeneratedModel | null;
+  selectedIds: string[];
+  isEditable: boolean; // False while generating or reviewing a change set
+  onChangeParts: (changes: PartChange[]) => void;
+  onRenamePart: (id: string, newId: string) => void;
+  onRenameModel: (name: string) => void;
+}
+
+type AngleUnit = 'deg' | 'rad';
+type VectorField = 'position' | 'rotation' | 'scale';
+
+const AXES = ['X', 'Y', 'Z'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const OPERATIONS: BooleanOperation[] = ['union', 'subtract', 'intersect'];
+
+const inputClass = "w-full min-w-0 bg-cad-800 border rounded px-1.5 py-0.5 text-white text-xs focus:outline-none disabled:opacity-50";
+const labelClass = "text-[10px] uppercase text-gray-500";
+
+// Value every selected part agrees on, or undefined when they differ ("mixed")
+const shared = <T,>(values: T[]): T | undefined => {
+  const first = JSON.stringify(values[0]);
+  return values.every(value => JSON.stringify(value) === first) ? values[0] : undefined;
+};
+
+interface CommitInputProps {
+  value: string; // Current value; undefined-like states are passed as ''
+  placeholder?: string;
+  disabled?: boolean;
+  hint?: string;
+  onCommit: (text: string) => string | null; // Returns why the text was rejected, or null once applied
+}
+
+// Text is kept locally while typing and only applied on Enter or blur. Escape discards it
+const CommitInput: React.FC<CommitInputProps> = ({ value, placeholder, disabled, hint, onCommit }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    if (text === null) return;
+    const problem = text === value ? null : onCommit(text);
+    setError(problem);
+    if (!problem) setText(null);
+  };
+
+  return (
+    <input
+      className={`${inputClass} ${error ? 'border-red-500' : 'border-cad-600 focus:border-cad-accent'}`}
+      value={text ?? value}
+      placeholder={placeholder}
+      disabled={disabled}
+      title={error ?? hint}
+      onChange={(e) => { setText(e.target.value); setError(null); }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') { setText(null); setError(null); e.currentTarget.blur(); }
+      }}
+    />
+  );
+};
+
+interface NumberFieldProps {
+  value: number | undefined; // undefined when the selected parts differ
+  disabled?: boolean;
+  validate?: (value: number) => string | null;
+  onCommit: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ value, disabled, validate, onCommit }) => (
+  <CommitInput
+    value={value === undefined ? '' : formatNumber(value)}
+    placeholder={value === undefined ? 'mixed' : undefined}
+    disabled={disabled}
+    hint="Accepts expressions, e.g. 25.4 * 2 or pi / 4"
+    onCommit={(text) => {
+      try {
+        const result = evaluateExpression(text);
+        const problem = validate?.(result) ?? null;
+        if (!problem) onCommit(result);
+        return problem;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    }}
+  />
+);
+
+const Row: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+  <div className="grid grid-cols-[4.5rem_1fr] items-center gap-2">
+    <span className={`${labelClass} truncate`} title={label}>{label}</span>
+    <div className="flex gap-1 min-w-0">{children}</div>
+  </div>
+);
+
+const PropertiesInspector: React.FC<PropertiesInspectorProps> = ({ model, selectedIds, isEditable, onChangeParts, onRenamePart, onRenameModel }) => {
+  const [angleUnit, setAngleUnit] = useState<AngleUnit>('deg');
+
+  const parts = useMemo(
+    () => (model ? selectedIds.map(id => model.parts.find(p => p.id === id)).filter((p): p is ModelPart => !!p) : []),
+    [model, selectedIds]
+  );
+
+  // Parents that would not create a cycle: anything outside the selected subtrees
+  const parentOptions = useMemo(() => {
+    if (!model) return [];
+    const parents = resolveParents(model.parts);
+    const selected = new Set(parts.map(p => p.id));
+    const isInSelection = (id: string) => {
+      for (let cursor: string | undefined = id, steps = 0; cursor && steps <= model.parts.length; cursor = parents.get(cursor), steps++) {
+        if (selected.has(cursor)) return true;
+      }
+      return false;
+    };
+    return model.parts.filter(p => !isInSelection(p.id));
+  }, [model, parts]);
+
+  if (!model) return null;
+
+  const disabled = !isEditable;
+  // Inputs hold typed text per selection; switching selection starts fresh
+  const selectionKey = parts.map(p => p.id).join('|');
+
+  const update = (change: (part: ModelPart) => Partial<ModelPart>) =>
+    onChangeParts(parts.map(part => ({ id: part.id, ...change(part) })));
+
+  const updateAxis = (field: VectorField, axis: number, value: number) =>
+    update(part => {
+      const vector = [...part[field]] as [number, number, number];
+      vector[axis] = value;
+      return { [field]: vector };
+    });
+
+  const toAngleUnit = (radians: number) => (angleUnit === 'deg' ? THREE.MathUtils.radToDeg(radians) : radians);
+  const fromAngleUnit = (value: number) => (angleUnit === 'deg' ? THREE.MathUtils.degToRad(value) : value);
+
+  const type = shared(parts.map(p => p.type));
+  const definition = type !== undefined ? getPrimitive(type) : undefined;
+  const color = shared(parts.map(p => p.color));
+  const operation = shared(parts.map(p => p.operation ?? ''));
+  const hasProfile = parts.length > 0 && parts.every(p => (p.profile?.length ?? 0) >= 3);
+
+  const renderVector = (field: VectorField, label: string) => (
+    <Row label={label}>
+      {AXES.map((axis, i) => {
+        const value = shared(parts.map(p => p[field][i]));
+        return (
+          <NumberField
+            key={axis}
+            value={value === undefined ? undefined : field === 'rotation' ? toAngleUnit(value) : value}
+            disabled={disabled}
+            validate={field === 'scale' ? (v) => (v === 0 ? 'Scale cannot be 0' : null) : undefined}
+            onCommit={(v) => updateAxis(field, i, field === 'rotation' ? fromAngleUnit(v) : v)}
+          />
+        );
+      })}
+    </Row>
+  );
+
+  return (
+    <div className="max-h-[55%] flex flex-col border-t border-cad-600 bg-cad-900 text-gray-300 font-mono text-xs">
+      {/* Header */}
+      <div className="h-9 flex-shrink-0 border-b border-cad-600 font-bold flex items-center gap-2 px-3 bg-cad-800 text-white tracking-wide">
+        <SlidersHorizontal className="w-4 h-4" />
+        <span>PROPERTIES</span>
+        {parts.length > 1 && <span className="ml-auto text-[10px] text-cad-accent">{parts.length} PARTS</span>}
+      </div>
+
+      <div key={selectionKey} className="overflow-y-auto p-3 space-y-2">
+        <Row label="Model">
+          <CommitInput
+            value={model.name}
+            disabled={disabled}
+            onCommit={(text) => {
+              if (!text.trim()) return 'Name cannot be empty';
+              onRenameModel(text.trim());
+              return null;
+            }}
+          />
+        </Row>
+
+        {parts.length === 0 ? (
+          <div className="text-gray-600 italic text-center py-4">Select a part to edit it</div>
+        ) : (
+          <>
+            <div className="pt-2 border-t border-cad-700" />
+            <Row label="Id">
+              <CommitInput
+                value={parts.length === 1 ? parts[0].id : ''}
+                placeholder={parts.length > 1 ? 'mixed' : undefined}
+                disabled={disabled || parts.length > 1}
+                onCommit={(text) => {
+                  const id = text.trim();
+                  if (!id) return 'Id cannot be empty';
+                  if (model.parts.some(p => p.id === id)) return `Id "${id}" is already used`;
+                  onRenamePart(parts[0].id, id);
+                  return null;
+                }}
+              />
+            </Row>
+            <Row label="Description">
+              <CommitInput
+                value={shared(parts.map(p => p.description)) ?? ''}
+                placeholder="mixed"
+                disabled={disabled}
+                onCommit={(text) => {
+                  update(() => ({ description: text.trim() }));
+                  return null;
+                }}
+              />
+            </Row>
+            <Row label="Type">
+              <select
+                className={`${inputClass} border-cad-600 focus:border-cad-accent`}
+                value={type ?? ''}
+                disabled={disabled}
+                onChange={(e) => {
+                  const next = getPrimitive(e.target.value);
+                  if (next) update(part => changePartType(part, next.type));
+                }}
+              >
+                {type === undefined && <option value="" disabled>mixed</option>}
+                {getPrimitives().map(primitive => (
+                  <option key={primitive.type} value={primitive.type} disabled={primitive.usesProfile && !hasProfile}>
+                    {primitive.label}{primitive.usesProfile && !hasProfile ? ' (needs profile)' : ''}
+                  </option>
+                ))}
+              </select>
+            </Row>
+
+            {renderVector('position', 'Position')}
+            {renderVector('rotation', `Rotation ${angleUnit === 'deg' ? '°' : 'rad'}`)}
+            {renderVector('scale', 'Scale')}
+
+            <Row label="Angles">
+              {(['deg', 'rad'] as AngleUnit[]).map(unit => (
+                <button
+                  key={unit}
+                  onClick={() => setAngleUnit(unit)}
+                  className={`flex-1 rounded px-1 py-0.5 text-[10px] transition-colors ${angleUnit === unit ? 'bg-cad-accent text-cad-900 font-bold' : 'bg-cad-800 text-gray-400 hover:text-white'}`}
+                >
+                  {unit === 'deg' ? 'DEGREES' : 'RADIANS'}
+                </button>
+              ))}
+            </Row>
+
+            <Row label="Color">
+              <input
+                type="color"
+                className="w-8 h-6 flex-shrink-0 bg-transparent border border-cad-600 rounded cursor-pointer disabled:opacity-50"
+                value={color ?? '#cccccc'}
+                disabled={disabled}
+                onChange={(e) => update(() => ({ color: e.target.value }))}
+              />
+              <CommitInput
+                value={color ?? ''}
+                placeholder="mixed"
+                disabled={disabled}
+                onCommit={(text) => {
+                  if (!HEX_COLOR.test(text.trim())) return 'Use a hex color such as #06b6d4';
+                  update(() => ({ color: text.trim().toLowerCase() }));
+                  return null;
+                }}
+              />
+            </Row>
+
+            {/* Primitive args, only when every selected part is of the same type */}
+            {definition && definition.args.length > 0 && (
+              <div className="pt-2 border-t border-cad-700 space-y-2">
+                {definition.args.map((spec, i) => {
+                  const value = shared(parts.map(p => resolveArgs(definition, p)[i]));
+                  const isAngle = spec.kind === 'angle';
+                  return (
+                    <Row key={spec.name} label={isAngle ? `${spec.name} ${angleUnit === 'deg' ? '°' : 'rad'}` : spec.name}>
+                      <NumberField
+                        value={value === undefined ? undefined : isAngle ? toAngleUnit(value) : value}
+                        disabled={disabled}
+                        validate={(v) => checkArgValue(spec, isAngle ? fromAngleUnit(v) : v)}
+                        onCommit={(v) => update(part => {
+                          const args = resolveArgs(definition, part);
+                          args[i] = isAngle ? fromAngleUnit(v) : v;
+                          return { args };
+                        })}
+                      />
+                    </Row>
+                  );
+                })}
+              </div>
+            )}
+            {type === undefined && <div className="text-[10px] text-gray-600 italic">Args are shown when all selected parts share a type</div>}
+
+            {/* Assembly and boolean links */}
+            <div className="pt-2 border-t border-cad-700 space-y-2">
+              <Row label="Parent">
+                <select
+                  className={`${inputClass} border-cad-600 focus:border-cad-accent`}
+                  value={shared(parts.map(p => p.parentId ?? '')) ?? '*'}
+                  disabled={disabled}
+                  onChange={(e) => update(part => reparentPart(model.parts, part, e.target.value || undefined))}
+                >
+                  <option value="*" disabled hidden>mixed</option>
+                  <option value="">(none)</option>
+                  {parentOptions.map(p => <option key={p.id} value={p.id}>{p.description || p.id}</option>)}
+                </select>
+              </Row>
+              <Row label="Boolean">
+                <select
+                  className={`${inputClass} border-cad-600 focus:border-cad-accent`}
+                  value={operation ?? '*'}
+                  disabled={disabled}
+                  onChange={(e) => update(() => ({ operation: (e.target.value || undefined) as BooleanOperation | undefined }))}
+                >
+                  <option value="*" disabled hidden>mixed</option>
+                  <option value="">(solid)</option>
+                  {OPERATIONS.map(op => <option key={op} value={op}>{op}</option>)}
+                </select>
+              </Row>
+              {operation && (
+                <Row label="Target">
+                  <select
+                    className={`${inputClass} border-cad-600 focus:border-cad-accent`}
+                    value={shared(parts.map(p => p.targetId ?? '')) ?? '*'}
+                    disabled={disabled}
+                    onChange={(e) => update(() => ({ targetId: e.target.value || undefined }))}
+                  >
+                    <option value="*" disabled hidden>mixed</option>
+                    <option value="">(none)</option>
+                    {model.parts.filter(p => !parts.some(s => s.id === p.id)).map(p => (
+                      <option key={p.id} value={p.id}>{p.description || p.id}</option>
+                    ))}
+                  </select>
+                </Row>
+              )}
+              {parts.length === 1 && parts[0].profile && (
+                <Row label="Profile">
+                  <span className="text-gray-400">
+                    {parts[0].profile.length} vertices{parts[0].holes?.length ? `, ${parts[0].holes.length} holes` : ''}
+                  </span>
+                </Row>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PropertiesInspector;
@@ -1,21 +1,144 @@
-import React from 'react';
-import { GeneratedModel } from '../types';
-import { Box, Layers, Eye, Circle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedModel, PartChange, ShapeType } from '../types';
+import { buildPartTree, getInheritedIds, PartNode } from '../services/hierarchyService';
+import { hideAllParts, isolateParts, setPartsHidden, setPartsLocked, showAllParts } from '../services/visibilityService';
+import { isBooleanTool } from '../services/csgService';
+import { SelectionMode } from '../services/selectionService';
+import { Box, Layers, Eye, EyeOff, Lock, Unlock, Focus, ChevronRight, ChevronDown, Folder, Scissors } from 'lucide-react';
 
 interface SceneGraphProps {
   model: GeneratedModel | null;
+  selectedIds: string[];
+  onSelect: (partIds: string[], mode: SelectionMode) => void;
+  onChangeParts?: (changes: PartChange[], label: string) => void; // Visibility and lock toggles are only enabled when set
 }
 
-const SceneGraph: React.FC<SceneGraphProps> = ({ model }) => {
+const SceneGraph: React.FC<SceneGraphProps> = ({ model, selectedIds, onSelect, onChangeParts }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  // Parts picked in the viewport are scrolled into view
+  const primaryId = selectedIds[selectedIds.length - 1];
+  useEffect(() => {
+    if (!primaryId) return;
+    const row = listRef.current?.querySelector(`[data-part-id="${CSS.escape(primaryId)}"]`);
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [primaryId]);
+
+  const partTree = useMemo(() => (model ? buildPartTree(model.parts) : []), [model]);
+  const hiddenIds = useMemo(() => (model ? getInheritedIds(model.parts, 'hidden') : new Set<string>()), [model]);
+  const lockedIds = useMemo(() => (model ? getInheritedIds(model.parts, 'locked') : new Set<string>()), [model]);
+
+  const changeParts = (changes: PartChange[], label: string) => {
+    if (changes.length > 0) onChangeParts?.(changes, label);
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: PartNode, depth: number): React.ReactNode => {
+    const { part, index } = node;
+    const hasChildren = node.children.length > 0;
+    const isCollapsed = collapsed.has(part.id);
+    const isGroup = part.type === ShapeType.GROUP;
+    const isTool = !!model && isBooleanTool(part, model.parts);
+    const isSelected = selectedSet.has(part.id);
+    // Flags inherited from a parent are shown dimmed; toggling them happens on the parent
+    const isHidden = hiddenIds.has(part.id);
+    const isLocked = lockedIds.has(part.id);
+    const label = part.description || part.id;
+
+    return (
+      <React.Fragment key={`${part.id}-${index}`}>
+        <div
+          data-part-id={part.id}
+          onClick={(e) => { if (!isLocked) onSelect([part.id], e.shiftKey || e.ctrlKey || e.metaKey ? 'toggle' : 'replace'); }}
+          className={`flex items-center gap-2 pr-4 py-1.5 group transition-colors ${isLocked ? 'cursor-default' : 'cursor-pointer'} ${isSelected ? 'bg-cyan-900/40 border-l-2 border-cad-accent' : 'hover:bg-cad-800 border-l-2 border-transparent'} ${isHidden ? 'opacity-50' : ''}`}
+          style={{ paddingLeft: 16 + depth * 12 }}
+        >
+          {hasChildren ? (
+            <button
+              onClick={(e) => { e.stopPropagation(); toggleCollapsed(part.id); }}
+              className="text-gray-500 hover:text-white"
+              title={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-3" />
+          )}
+          <button
+            onClick={(e) => { e.stopPropagation(); changeParts(setPartsHidden(model!.parts, [part.id], !part.hidden), `${part.hidden ? 'Show' : 'Hide'} ${label}`); }}
+            disabled={!onChangeParts}
+            className={`disabled:cursor-default ${part.hidden ? 'text-gray-300' : 'text-gray-500 hover:text-white'}`}
+            title={part.hidden ? 'Show' : isHidden ? 'Hidden with its parent' : 'Hide'}
+          >
+            {isHidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+          </button>
+          <span className="text-gray-500 w-4 text-right">{index + 1}</span>
+          {isGroup && <Folder className="w-3 h-3 text-cyan-500" />}
+          {isTool && (
+            <span title={`${part.operation} → ${part.targetId}`}>
+              <Scissors className="w-3 h-3 text-orange-400" />
+            </span>
+          )}
+          <span className={`truncate flex-1 group-hover:text-white transition-colors ${isSelected ? 'text-white' : 'text-gray-300'}`} title={part.description}>
+            {part.description || `${part.type}_${part.id}`}
+          </span>
+          <button
+            onClick={(e) => { e.stopPropagation(); changeParts(setPartsLocked(model!.parts, [part.id], !part.locked), `${part.locked ? 'Unlock' : 'Lock'} ${label}`); }}
+            disabled={!onChangeParts}
+            className={`disabled:cursor-default ${part.locked ? 'text-yellow-500' : isLocked ? 'text-yellow-700' : 'text-gray-500 hover:text-white opacity-0 group-hover:opacity-100'}`}
+            title={part.locked ? 'Unlock' : isLocked ? 'Locked with its parent' : 'Lock against selection and editing'}
+          >
+            {isLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+          </button>
+          {!isGroup && !isTool && (
+            <div
+              className="w-2 h-2 rounded-full shadow-[0_0_4px_rgba(0,0,0,0.5)] ring-1 ring-white/10"
+              style={{ backgroundColor: part.color }}
+            ></div>
+          )}
+        </div>
+        {hasChildren && !isCollapsed && node.children.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
   return (
-    <div className="h-full flex flex-col bg-cad-900 border-l border-cad-600 text-gray-300 font-mono text-xs w-72 flex-shrink-0 select-none">
+    <div className="flex-1 min-h-0 flex flex-col bg-cad-900 text-gray-300 font-mono text-xs select-none">
       {/* Header */}
       <div className="h-10 border-b border-cad-600 font-bold flex items-center gap-2 px-3 bg-cad-800 text-white tracking-wide">
         <Layers className="w-4 h-4" />
         <span>SCENE HIERARCHY</span>
+        {model && onChangeParts && (
+          <div className="ml-auto flex items-center gap-1 font-normal text-gray-400">
+            <button
+              onClick={() => changeParts(isolateParts(model.parts, selectedIds), 'Isolate selection')}
+              disabled={selectedIds.length === 0}
+              className="p-1 rounded hover:bg-cad-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Isolate selection (hide everything else)"
+            >
+              <Focus className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => changeParts(showAllParts(model.parts), 'Show all parts')} className="p-1 rounded hover:bg-cad-700 hover:text-white" title="Show all">
+              <Eye className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => changeParts(hideAllParts(model.parts), 'Hide all parts')} className="p-1 rounded hover:bg-cad-700 hover:text-white" title="Hide all">
+              <EyeOff className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
       </div>
-      
-      <div className="flex-1 overflow-y-auto bg-cad-900">
+
+      <div ref={listRef} className="flex-1 overflow-y-auto bg-cad-900">
         {!model ? (
           <div className="text-gray-600 italic text-center mt-10 opacity-50">Empty Scene</div>
         ) : (
@@ -25,33 +148,29 @@ const SceneGraph: React.FC<SceneGraphProps> = ({ model }) => {
                 <Box className="w-4 h-4" />
                 <span className="font-bold truncate">{model.name}</span>
              </div>
-             
-             {/* Parts List */}
+
+             {/* Parts Tree */}
              <div className="py-1">
-                {model.parts.map((part, idx) => (
-                    <div key={idx} className="flex items-center gap-3 px-4 py-1.5 hover:bg-cad-800 cursor-pointer group transition-colors">
-                        <Eye className="w-3 h-3 text-gray-500 group-hover:text-white" />
-                        <span className="text-gray-500 w-4 text-right">{idx + 1}</span>
-                        <span className="truncate flex-1 text-gray-300 group-hover:text-white transition-colors" title={part.description}>
-                            {part.description || `${part.type}_${part.id}`}
-                        </span>
-                        <div 
-                            className="w-2 h-2 rounded-full shadow-[0_0_4px_rgba(0,0,0,0.5)] ring-1 ring-white/10" 
-                            style={{ backgroundColor: part.color }}
-                        ></div>
-                    </div>
-                ))}
+                {partTree.map(node => renderNode(node, 0))}
              </div>
           </div>
         )}
       </div>
-      
+
       {/* Footer Stats */}
       <div className="p-3 border-t border-cad-600 bg-cad-900 text-[10px] text-gray-500 space-y-1">
          <div className="flex justify-between">
            <span>PARTS:</span>
            <span className="text-gray-400 font-bold">{model ? model.parts.length : 0}</span>
          </div>
+         <div className="flex justify-between">
+           <span>HIDDEN:</span>
+           <span className="text-gray-400 font-bold">{hiddenIds.size}</span>
+         </div>
+         <div className="flex justify-between">
+           <span>SELECTED:</span>
+           <span className="text-gray-400 font-bold">{selectedIds.length}</span>
+         </div>
          <div className="flex justify-between">
            <span>VERTICES:</span>
            <span className="text-gray-400 font-bold">{model ? model.parts.length * 64 : 0} approx</span>
@@ -61,4 +180,4 @@ const SceneGraph: React.FC<SceneGraphProps> = ({ model }) => {
   );
 };
 
-export default SceneGraph;
\ No newline at end of file
+export default SceneGraph;
@@ -0,0 +1,122 @@
+import React from 'react';
+import * as THREE from 'three';
+import { LengthUnit, SectionPlane } from '../types';
+import { getOffsetRange } from '../services/sectionService';
+import { Camera, Eye, EyeOff, FlipHorizontal, SquareSplitHorizontal, X } from 'lucide-react';
+
+interface SectionPanelProps {
+  sections: SectionPlane[]; // A plane being dragged shows its live offset
+  bounds: THREE.Box3; // Visible parts, sets the slider ranges
+  units: LengthUnit;
+  isPickingFace: boolean;
+  capColor: string;
+  hatchColor: string;
+  isEditable: boolean; // Adding, changing and removing planes need an editable model
+  onSnapshot: () => void;
+  onAddAxis: (axis: 'X' | 'Y' | 'Z') => void;
+  onTogglePickFace: () => void;
+  onUpdate: (section: SectionPlane, update: Partial<SectionPlane>, label: string) => void;
+  onMove: (section: SectionPlane, offset: number) => void; // Live while dragging
+  onMoveEnd: () => void; // Keeps the dragged offset
+  onRemove: (section: SectionPlane) => void;
+  onCapColorChange: (color: string) => void;
+  onHatchColorChange: (color: string) => void;
+}
+
+// Clipping planes on an axis or a picked face, with capped and hatched cuts
+const SectionPanel: React.FC<SectionPanelProps> = ({
+  sections, bounds, units, isPickingFace, capColor, hatchColor, isEditable,
+  onSnapshot, onAddAxis, onTogglePickFace, onUpdate, onMove, onMoveEnd, onRemove, onCapColorChange, onHatchColorChange,
+}) => (
+  <div className="absolute top-4 right-20 w-60 flex flex-col gap-2 bg-cad-900/90 border border-cad-600 rounded p-2 font-mono text-[10px] text-cad-accent z-10 shadow-xl">
+    <div className="flex items-center gap-2 text-white font-bold">
+      <SquareSplitHorizontal className="w-3 h-3" /> SECTION
+      <button onClick={onSnapshot} className="ml-auto p-1 rounded text-cad-accent hover:bg-cad-700 hover:text-white" title="Export a snapshot of the view (PNG)">
+        <Camera className="w-3.5 h-3.5" />
+      </button>
+    </div>
+    <div className="flex items-center gap-1">
+      <span className="text-gray-500 mr-1">ADD</span>
+      {(['X', 'Y', 'Z'] as const).map(axis => (
+        <button
+          key={axis}
+          onClick={() => onAddAxis(axis)}
+          disabled={!isEditable}
+          className="w-6 py-1 rounded font-bold hover:bg-cad-700 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+          title={`Plane across the ${axis} axis`}
+        >
+          {axis}
+        </button>
+      ))}
+      <button
+        onClick={onTogglePickFace}
+        disabled={!isEditable}
+        className={`px-1.5 py-1 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none ${isPickingFace ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+        title="Click a face to put a plane on it"
+      >
+        ON FACE
+      </button>
+    </div>
+    {isPickingFace && <div className="text-gray-400">Click a face of a part</div>}
+    {sections.map(section => {
+      const [low, high] = getOffsetRange(section.normal, bounds);
+      return (
+        <div key={section.id} className="flex flex-col gap-1 pt-2 border-t border-cad-600/50">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onUpdate(section, { enabled: !section.enabled }, `Turn ${section.enabled ? 'off' : 'on'} ${section.label} section`)}
+              disabled={!isEditable}
+              className="p-0.5 rounded hover:bg-cad-700 hover:text-white disabled:pointer-events-none"
+              title={section.enabled ? 'Turn off' : 'Turn on'}
+            >
+              {section.enabled ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3 text-gray-500" />}
+            </button>
+            <span className={section.enabled ? 'text-white' : 'text-gray-500'}>{section.label}</span>
+            <span className="text-gray-500 ml-auto">{Number(section.offset.toPrecision(4))} {units}</span>
+            <button
+              onClick={() => onUpdate(section, { flipped: !section.flipped }, `Flip ${section.label} section`)}
+              disabled={!isEditable}
+              className={`p-0.5 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none ${section.flipped ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+              title="Flip side"
+            >
+              <FlipHorizontal className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onRemove(section)}
+              disabled={!isEditable}
+              className="p-0.5 rounded hover:bg-cad-700 hover:text-red-400 disabled:opacity-40 disabled:pointer-events-none"
+              title="Remove plane"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <input
+            type="range"
+            min={Math.min(low, section.offset)}
+            max={Math.max(high, section.offset)}
+            step="any"
+            value={section.offset}
+            onChange={(e) => onMove(section, parseFloat(e.target.value))}
+            onPointerUp={onMoveEnd}
+            onKeyUp={onMoveEnd}
+            disabled={!isEditable}
+            className="w-full accent-cyan-500 disabled:opacity-40"
+            title="Drag to move the plane, or drag its arrow in the view"
+          />
+        </div>
+      );
+    })}
+    <div className="flex items-center gap-2 pt-2 border-t border-cad-600/50 text-gray-400">
+      <label className="flex items-center gap-1">
+        CAP
+        <input type="color" value={capColor} onChange={(e) => onCapColorChange(e.target.value)} className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer" />
+      </label>
+      <label className="flex items-center gap-1">
+        HATCH
+        <input type="color" value={hatchColor} onChange={(e) => onHatchColorChange(e.target.value)} className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer" />
+      </label>
+    </div>
+  </div>
+);
+
+export default SectionPanel;
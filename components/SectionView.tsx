@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SectionPlane } from '../types';
+import { toClippingPlane } from '../services/sectionService';
+
+export const DEFAULT_CAP_COLOR = '#f59e0b';
+export const DEFAULT_HATCH_COLOR = '#78350f';
+
+const HATCH_TEXTURE_SIZE = 64;
+
+/**
+ * Stencil passes that find where a plane cuts through a closed mesh: back faces count up and
+ * front faces count down, so pixels inside the solid are left non-zero for the cap to fill.
+ */
+export const createStencilMaterials = (plane: THREE.Plane): THREE.Material[] =>
+  [THREE.BackSide, THREE.FrontSide].map(side => {
+    const op = side === THREE.BackSide ? THREE.IncrementWrapStencilOp : THREE.DecrementWrapStencilOp;
+    return new THREE.MeshBasicMaterial({
+      side,
+      clippingPlanes: [plane],
+      depthWrite: false,
+      depthTest: false,
+      colorWrite: false,
+      stencilWrite: true,
+      stencilFunc: THREE.AlwaysStencilFunc,
+      stencilFail: op,
+      stencilZFail: op,
+      stencilZPass: op,
+    });
+  });
+
+/**
+ * Diagonal hatching on a solid fill, tiled across the caps.
+ */
+export const createHatchTexture = (fill: string, hatch: string): THREE.CanvasTexture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = HATCH_TEXTURE_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, HATCH_TEXTURE_SIZE, HATCH_TEXTURE_SIZE);
+  ctx.strokeStyle = hatch;
+  ctx.lineWidth = HATCH_TEXTURE_SIZE / 10;
+  // The corner strokes continue the middle one, so the pattern tiles without seams
+  [-HATCH_TEXTURE_SIZE, 0, HATCH_TEXTURE_SIZE].forEach(shift => {
+    ctx.beginPath();
+    ctx.moveTo(shift, HATCH_TEXTURE_SIZE);
+    ctx.lineTo(shift + HATCH_TEXTURE_SIZE, 0);
+    ctx.stroke();
+  });
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+interface SectionPlaneSyncProps {
+  sections: SectionPlane[];
+  planes: THREE.Plane[]; // Same order as sections, updated in place
+  modelRef: React.RefObject<THREE.Group | null>;
+}
+
+// Sections are defined in model space; the materials clip in world space, so the planes follow the model group
+export const SectionPlaneSync = ({ sections, planes, modelRef }: SectionPlaneSyncProps) => {
+  useFrame(() => {
+    sections.forEach((section, i) => {
+      toClippingPlane(section, planes[i]);
+      if (modelRef.current) planes[i].applyMatrix4(modelRef.current.matrixWorld);
+    });
+  });
+  return null;
+};
+
+interface SectionCapProps {
+  plane: THREE.Plane;
+  otherPlanes: THREE.Plane[]; // The cap is cut by the remaining sections too
+  index: number; // Drawn right after the stencil passes of its plane
+  size: number;
+  texture: THREE.Texture;
+  hatchSpacing: number;
+}
+
+// Large quad on the plane, only drawn where the stencil passes found the inside of a part
+export const SectionCap = ({ plane, otherPlanes, index, size, texture, hatchSpacing }: SectionCapProps) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  const capTexture = useMemo(() => {
+    const clone = texture.clone();
+    clone.repeat.setScalar(size / hatchSpacing);
+    return clone;
+  }, [texture, size, hatchSpacing]);
+
+  const material = useMemo(() => new THREE.MeshStandardMaterial({
+    map: capTexture,
+    roughness: 0.8,
+    metalness: 0.1,
+    side: THREE.DoubleSide,
+    clippingPlanes: otherPlanes,
+    stencilWrite: true,
+    stencilRef: 0,
+    stencilFunc: THREE.NotEqualStencilFunc,
+    stencilFail: THREE.ReplaceStencilOp,
+    stencilZFail: THREE.ReplaceStencilOp,
+    stencilZPass: THREE.ReplaceStencilOp,
+  }), [capTexture, otherPlanes]);
+
+  useEffect(() => () => {
+    material.dispose();
+    capTexture.dispose();
+  }, [material, capTexture]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    plane.coplanarPoint(mesh.position);
+    // The quad faces the side that was cut away, where the viewer looks into the section
+    mesh.lookAt(mesh.position.clone().sub(plane.normal));
+  });
+
+  return (
+    <mesh
+      ref={meshRef}
+      material={material}
+      renderOrder={index + 1.1}
+      onAfterRender={(gl) => gl.clearStencil()}
+      raycast={() => null}
+    >
+      <planeGeometry args={[size, size]} />
+    </mesh>
+  );
+};
+
+interface SectionHandleProps {
+  section: SectionPlane;
+  center: THREE.Vector3; // Model space; the handle sits where the plane crosses the normal through this point
+  size: number; // Length of the arrow
+  modelRef: React.RefObject<THREE.Group | null>;
+  onMove: (offset: number) => void;
+  onRelease: () => void; // The drag is over; the last offset can be kept
+}
+
+const ARROW_UP = new THREE.Vector3(0, 1, 0);
+
+// Arrow on the plane pointing at the side that is cut away. Dragging it slides the plane along its normal:
+// the offset follows the point of the normal line closest to the pointer ray
+export const SectionHandle = ({ section, center, size, modelRef, onMove, onRelease }: SectionHandleProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const controls = useThree(state => state.controls) as unknown as { enabled: boolean } | null;
+  const dragRef = useRef<{ anchor: THREE.Vector3, start: number, offset: number } | null>(null);
+  const [isActive, setIsActive] = useState(false);
+
+  const normal = useMemo(() => new THREE.Vector3(...section.normal), [section.normal]);
+  const getAnchor = () => center.clone().addScaledVector(normal, section.offset - normal.dot(center));
+
+  // Distance along the normal line through anchor to where it passes closest to the ray, or null when looking along it
+  const getDistance = (anchor: THREE.Vector3, worldRay: THREE.Ray): number | null => {
+    if (!modelRef.current) return null;
+    const ray = worldRay.clone().applyMatrix4(modelRef.current.matrixWorld.clone().invert());
+    ray.direction.normalize();
+    const w = anchor.clone().sub(ray.origin);
+    const b = normal.dot(ray.direction);
+    const denominator = 1 - b * b;
+    if (denominator < 1e-6) return null;
+    return (b * ray.direction.dot(w) - normal.dot(w)) / denominator;
+  };
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group || !modelRef.current) return;
+    const { matrixWorld } = modelRef.current;
+    group.position.copy(getAnchor()).applyMatrix4(matrixWorld);
+    const direction = normal.clone().multiplyScalar(section.flipped ? -1 : 1).transformDirection(matrixWorld);
+    group.quaternion.setFromUnitVectors(ARROW_UP, direction);
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const anchor = getAnchor();
+    const start = getDistance(anchor, e.ray);
+    if (start === null) return;
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { anchor, start, offset: section.offset };
+    if (controls) controls.enabled = false;
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    e.stopPropagation();
+    const distance = getDistance(drag.anchor, e.ray);
+    if (distance !== null) onMove(drag.offset + distance - drag.start);
+  };
+
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragRef.current) return;
+    e.stopPropagation();
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    setIsActive(false);
+    if (controls) controls.enabled = true;
+    onRelease();
+  };
+
+  // Drawn over the model, so the handle can be grabbed wherever the plane cuts
+  const color = isActive ? '#ffffff' : '#06b6d4';
+  return (
+    <group
+      ref={groupRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+      onPointerOver={() => setIsActive(true)}
+      onPointerOut={() => { if (!dragRef.current) setIsActive(false); }}
+    >
+      <mesh position={[0, size * 0.35, 0]} renderOrder={1000}>
+        <cylinderGeometry args={[size * 0.03, size * 0.03, size * 0.7, 12]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+      <mesh position={[0, size * 0.85, 0]} renderOrder={1000}>
+        <coneGeometry args={[size * 0.09, size * 0.3, 16]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+      <mesh renderOrder={1000}>
+        <sphereGeometry args={[size * 0.07, 16, 12]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+    </group>
+  );
+};
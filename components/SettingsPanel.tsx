@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { GeneratorProviderId, GeneratorSettings } from '../types';
+import { PROVIDER_LABELS } from '../services/generatorRegistry';
+import { MAX_CORRECTION_ROUNDS, MAX_RETRIES } from '../constants';
+import { Settings, X, Save } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: GeneratorSettings;
+  onSave: (settings: GeneratorSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<GeneratorSettings>(settings);
+
+  const update = <K extends keyof GeneratorSettings>(key: K, value: GeneratorSettings[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const inputClass = "w-full bg-cad-900 border border-cad-600 rounded p-2 text-white text-xs focus:outline-none focus:border-cad-accent";
+  const labelClass = "block text-[10px] uppercase text-gray-400 mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100]" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-md bg-cad-800 border border-cad-600 rounded-lg shadow-2xl font-mono text-xs text-gray-300"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-cad-600 text-white font-bold">
+          <Settings className="w-4 h-4 text-cad-accent" />
+          <span>GENERATION SETTINGS</span>
+          <button onClick={onClose} className="ml-auto hover:bg-white/10 p-1 rounded"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Provider */}
+          <div>
+            <label className={labelClass}>Provider</label>
+            <div className="flex flex-col gap-1">
+              {(Object.keys(PROVIDER_LABELS) as GeneratorProviderId[]).map(id => (
+                <label key={id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-cad-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="provider"
+                    checked={draft.provider === id}
+                    onChange={() => update('provider', id)}
+                    className="accent-cyan-500"
+                  />
+                  <span className={draft.provider === id ? 'text-white' : ''}>{PROVIDER_LABELS[id]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Provider Specific */}
+          {draft.provider === 'gemini' && (
+            <div>
+              <label className={labelClass}>Model</label>
+              <input className={inputClass} value={draft.geminiModel} onChange={(e) => update('geminiModel', e.target.value)} />
+              <p className="mt-1 text-[10px] text-gray-500">API key is read from VITE_API_KEY / GEMINI_API_KEY.</p>
+            </div>
+          )}
+
+          {draft.provider === 'openai' && (
+            <>
+              <div>
+                <label className={labelClass}>Server URL</label>
+                <input className={inputClass} value={draft.openAIBaseUrl} onChange={(e) => update('openAIBaseUrl', e.target.value)} placeholder="http://localhost:11434/v1" />
+              </div>
+              <div>
+                <label className={labelClass}>Model</label>
+                <input className={inputClass} value={draft.openAIModel} onChange={(e) => update('openAIModel', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>API Key (optional)</label>
+                <input type="password" className={inputClass} value={draft.openAIApiKey} onChange={(e) => update('openAIApiKey', e.target.value)} />
+              </div>
+            </>
+          )}
+
+          {draft.provider === 'fixture' && (
+            <p className="text-[10px] text-gray-500 leading-relaxed">
+              Returns canned models for matching prompts and replays recorded responses. No network access is needed.
+            </p>
+          )}
+
+          {draft.provider !== 'fixture' && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.recordResponses}
+                onChange={(e) => update('recordResponses', e.target.checked)}
+                className="accent-cyan-500"
+              />
+              <span>Record responses for offline replay</span>
+            </label>
+          )}
+
+          {/* Request Handling */}
+          <div className="grid grid-cols-2 gap-3 pt-3 border-t border-cad-700">
+            <div>
+              <label className={labelClass}>Timeout (s)</label>
+              <input
+                type="number"
+                min={5}
+                value={draft.requestTimeoutSeconds}
+                onChange={(e) => update('requestTimeoutSeconds', Math.max(5, parseInt(e.target.value, 10) || 5))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Retries</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_RETRIES}
+                value={draft.maxRetries}
+                onChange={(e) => update('maxRetries', Math.min(MAX_RETRIES, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                className={inputClass}
+              />
+            </div>
+            <p className="col-span-2 text-[10px] text-gray-500">Rate limits, overloaded servers, dropped connections and timeouts are retried with increasing delays, unless a response had already started.</p>
+          </div>
+
+          {/* Plausibility Correction */}
+          <div className="pt-3 border-t border-cad-700">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.autoCorrectPlausibility}
+                onChange={(e) => update('autoCorrectPlausibility', e.target.checked)}
+                className="accent-cyan-500"
+              />
+              <span>Auto-correct floating or buried parts</span>
+            </label>
+            {draft.autoCorrectPlausibility && (
+              <div className="mt-2 flex items-center gap-2">
+                <label className="text-[10px] uppercase text-gray-400">Max rounds</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CORRECTION_ROUNDS}
+                  value={draft.maxCorrectionRounds}
+                  onChange={(e) => update('maxCorrectionRounds', Math.min(MAX_CORRECTION_ROUNDS, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className="w-16 bg-cad-900 border border-cad-600 rounded p-1 text-white text-xs focus:outline-none focus:border-cad-accent"
+                />
+              </div>
+            )}
+            <p className="mt-1 text-[10px] text-gray-500">Each round is an extra generation request.</p>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-cad-600">
+          <button onClick={onClose} className="px-4 py-1.5 rounded bg-cad-700 hover:bg-cad-600 text-gray-200">CANCEL</button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex items-center gap-2 px-4 py-1.5 rounded bg-cad-accent text-cad-900 font-bold hover:bg-cyan-400"
+          >
+            <Save className="w-3 h-3" /> SAVE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
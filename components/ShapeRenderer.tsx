@@ -1,15 +1,36 @@
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
 import { ModelPart, ShapeType } from '../types';
 import * as THREE from 'three';
-import { Edges } from '@react-three/drei';
+import { Edges, Outlines } from '@react-three/drei';
+import { createPartGeometry } from '../services/primitiveRegistry';
+import { DisplayMode } from '../services/displayService';
 
 interface ShapeRendererProps {
   part: ModelPart;
   isVisible: boolean;
+  children?: React.ReactNode; // Child parts, rendered in this part's local frame
+  booleanGeometry?: THREE.BufferGeometry; // Evaluated CSG result replacing the primitive geometry
+  isBooleanTool?: boolean; // Tool parts are consumed by their target and draw no mesh
+  isSelected?: boolean; // Selected itself or inside a selected group
+  onPick?: (partId: string, isAdditive: boolean) => void; // Omitted where parts are not selectable
+  onHover?: (partId: string, isHovered: boolean) => void;
+  clippingPlanes?: THREE.Plane[]; // Section planes, in world space
+  sectionStencils?: THREE.Material[][]; // Stencil passes per section plane that let the cut faces be capped
+  displayMode?: DisplayMode;
+  displayColor?: string; // Replaces part.color when the viewer colors parts by type or index
+  explodeOffset?: THREE.Vector3; // Exploded view, in the parent frame; the part data keeps its real position
 }
 
-const ShapeRenderer: React.FC<ShapeRendererProps> = ({ part, isVisible }) => {
+// Pointer moves larger than this between press and release are orbit drags, not clicks
+export const CLICK_DRAG_TOLERANCE = 2;
+
+// Hidden-line mode draws paper-white faces with dark lines, like a technical illustration
+const HIDDEN_LINE_FACE = '#f8fafc';
+const HIDDEN_LINE_EDGE = '#0f172a';
+const XRAY_OPACITY = 0.25;
+
+const ShapeRenderer: React.FC<ShapeRendererProps> = ({ part, isVisible, children, booleanGeometry, isBooleanTool, isSelected = false, onPick, onHover, clippingPlanes, sectionStencils, displayMode = 'shaded-edges', displayColor, explodeOffset }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   
   // Physics state for spring animation
@@ -68,22 +89,35 @@ const ShapeRenderer: React.FC<ShapeRendererProps> = ({ part, isVisible }) => {
   });
 
   const position = new THREE.Vector3(...part.position);
+  if (explodeOffset) position.add(explodeOffset);
   const rotation = new THREE.Euler(...part.rotation);
-  const color = part.color || "#cccccc";
-
-  // Memoize geometry to avoid overhead
-  const Geometry = useMemo(() => {
-    const args = part.args || [];
-    switch (part.type) {
-        case ShapeType.BOX: return <boxGeometry args={[1, 1, 1]} />;
-        case ShapeType.SPHERE: return <sphereGeometry args={[args[0] || 1, 32, 32]} />;
-        case ShapeType.CYLINDER: return <cylinderGeometry args={[args[0] || 1, args[1] || 1, args[2] || 1, 32]} />;
-        case ShapeType.CONE: return <coneGeometry args={[args[0] || 1, args[1] || 1, 32]} />;
-        case ShapeType.TORUS: return <torusGeometry args={[args[0] || 1, args[1] || 0.4, 32, 100]} />;
-        case ShapeType.ICOSAHEDRON: return <icosahedronGeometry args={[args[0] || 1, 0]} />;
-        default: return <boxGeometry />;
-    }
-  }, [part.type, part.args]);
+  const color = displayColor || part.color || "#cccccc";
+  const isShaded = displayMode === 'shaded' || displayMode === 'shaded-edges';
+  const edgeColor = displayMode === 'hidden-line' ? HIDDEN_LINE_EDGE : displayMode === 'xray' ? color : "#ffffff";
+
+  // Built by the primitive registry, the same geometry the exporter and CSG use
+  const primitiveGeometry = useMemo(
+    () => (booleanGeometry || part.type === ShapeType.GROUP ? null : createPartGeometry(part)),
+    [part.type, part.args, part.profile, part.holes, booleanGeometry]
+  );
+
+  useEffect(() => () => primitiveGeometry?.dispose(), [primitiveGeometry]);
+
+  const geometry = booleanGeometry ?? primitiveGeometry;
+  const Geometry = geometry ? <primitive object={geometry} attach="geometry" /> : null;
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (!onPick || e.delta > CLICK_DRAG_TOLERANCE) return;
+    // Only the nearest part is picked, not the ones behind it
+    e.stopPropagation();
+    onPick(part.id, e.nativeEvent.shiftKey || e.nativeEvent.ctrlKey || e.nativeEvent.metaKey);
+  };
+
+  const handlePointerOver = (e: ThreeEvent<PointerEvent>) => {
+    if (!onHover) return;
+    e.stopPropagation();
+    onHover(part.id, true);
+  };
 
   // Determine final scale for ghost mesh (static)
   const finalScale = new THREE.Vector3(
@@ -92,8 +126,26 @@ const ShapeRenderer: React.FC<ShapeRendererProps> = ({ part, isVisible }) => {
      part.scale?.[2] ?? 1
   );
 
+  // Group nodes only carry a transform (including scale) for their children
+  if (part.type === ShapeType.GROUP) {
+    return (
+      <group position={position} rotation={rotation} scale={finalScale} userData={{ partFrame: part.id }}>
+        {children}
+      </group>
+    );
+  }
+
+  // Boolean tools keep their frame for any children but have no body of their own
+  if (isBooleanTool) {
+    return (
+      <group position={position} rotation={rotation} userData={{ partFrame: part.id }}>
+        {children}
+      </group>
+    );
+  }
+
   return (
-    <group position={position} rotation={rotation}>
+    <group position={position} rotation={rotation} userData={{ partFrame: part.id }}>
       {/* 
          GHOST MESH:
          Invisible to the eye but visible to the <Bounds> system.
@@ -108,28 +160,62 @@ const ShapeRenderer: React.FC<ShapeRendererProps> = ({ part, isVisible }) => {
       {/* Actual Rendered Part with Physics Animation */}
       <mesh
         ref={meshRef}
-        castShadow
-        receiveShadow
+        castShadow={isShaded}
+        receiveShadow={isShaded}
         // Hide until first triggered to prevent any 0-scale artifacts
         visible={hasRenderedOnce} 
+        userData={{ partId: part.id }}
+        onClick={onPick ? handleClick : undefined}
+        onPointerOver={onHover ? handlePointerOver : undefined}
+        onPointerOut={onHover ? () => onHover(part.id, false) : undefined}
       >
         {Geometry}
-        <meshStandardMaterial
-          color={color}
-          roughness={0.4}
-          metalness={0.6}
-          // Polygon Offset ensures the wireframe Edges render cleanly on top without Z-fighting
-          polygonOffset
-          polygonOffsetFactor={1}
-        />
+        {displayMode === 'wireframe' ? (
+          <meshBasicMaterial color={color} wireframe clippingPlanes={clippingPlanes} />
+        ) : displayMode === 'hidden-line' ? (
+          // Flat faces only hide the lines behind them
+          <meshBasicMaterial color={HIDDEN_LINE_FACE} polygonOffset polygonOffsetFactor={1} clippingPlanes={clippingPlanes} />
+        ) : (
+          <meshStandardMaterial
+            key={displayMode} // Transparency and sidedness change the shader, so x-ray gets a material of its own
+            color={color}
+            roughness={0.4}
+            metalness={0.6}
+            // Polygon Offset ensures the wireframe Edges render cleanly on top without Z-fighting
+            polygonOffset
+            polygonOffsetFactor={1}
+            clippingPlanes={clippingPlanes}
+            clipShadows
+            // X-ray lets the inside of the assembly show through every part
+            transparent={displayMode === 'xray'}
+            opacity={displayMode === 'xray' ? XRAY_OPACITY : 1}
+            depthWrite={displayMode !== 'xray'}
+            side={displayMode === 'xray' ? THREE.DoubleSide : THREE.FrontSide}
+          />
+        )}
         
         {/* Technical Wireframe Overlay - Grows with the object */}
-        <Edges 
-          threshold={15} 
-          color="#ffffff"
-          scale={1}
-        />
+        {displayMode !== 'shaded' && displayMode !== 'wireframe' && (
+          <Edges 
+            threshold={15} 
+            color={edgeColor}
+            scale={1}
+            clippingPlanes={clippingPlanes}
+          />
+        )}
+
+        {isSelected && <Outlines screenspace thickness={3} color="#06b6d4" clippingPlanes={clippingPlanes} />}
       </mesh>
+
+      {/* Section stencil passes, drawn after the parts and before the cap of their plane */}
+      {sectionStencils?.map((materials, planeIndex) => materials.map((material, pass) => (
+        <mesh key={`${planeIndex}-${pass}`} scale={finalScale} material={material} renderOrder={planeIndex + 1} raycast={() => null}>
+          {Geometry}
+        </mesh>
+      )))}
+
+      {/* Children live in the part's frame, not the mesh, so the part's own scale doesn't stretch them */}
+      {children}
     </group>
   );
 };
@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from 'react';
+import { PromptTemplate, StylePreset } from '../types';
+import { INITIAL_PROMPT_EXAMPLES, PROMPT_TEMPLATES } from '../constants';
+import { fillTemplate, getPlaceholders } from '../services/promptTemplateService';
+import { BookOpen, Palette, X, Trash2, Save, CornerDownLeft } from 'lucide-react';
+
+interface TemplateGalleryProps {
+  presets: StylePreset[]; // Built-in presets followed by custom ones
+  activePresetId: string;
+  onSelectPreset: (presetId: string) => void;
+  onSavePreset: (preset: StylePreset) => void;
+  onDeletePreset: (presetId: string) => void;
+  onUseTemplate: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const inputClass = "w-full bg-cad-900 border border-cad-600 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-cad-accent";
+const labelClass = "block text-[10px] uppercase text-gray-400 mb-0.5";
+
+interface TemplateFormProps {
+  template: PromptTemplate;
+  onUse: (prompt: string) => void;
+}
+
+const TemplateForm: React.FC<TemplateFormProps> = ({ template, onUse }) => {
+  const [values, setValues] = useState<Record<string, string>>(template.defaults);
+  const placeholders = getPlaceholders(template.text);
+  const preview = fillTemplate(template, values);
+
+  return (
+    <form
+      className="flex flex-col gap-2"
+      onSubmit={(e) => { e.preventDefault(); onUse(preview); }}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        {placeholders.map(name => (
+          <div key={name}>
+            <label className={labelClass}>{name}</label>
+            <input
+              className={inputClass}
+              value={values[name] ?? ''}
+              placeholder={template.defaults[name]}
+              onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-white break-words">{preview}</p>
+      <button type="submit" className="self-end flex items-center gap-1 px-3 py-1 rounded bg-cad-accent text-cad-900 font-bold hover:bg-cyan-400">
+        <CornerDownLeft className="w-3 h-3" /> USE PROMPT
+      </button>
+    </form>
+  );
+};
+
+interface PresetFormProps {
+  basedOn: StylePreset; // Initial values, usually the selected preset
+  onSave: (preset: StylePreset) => void;
+}
+
+const PresetForm: React.FC<PresetFormProps> = ({ basedOn, onSave }) => {
+  const [name, setName] = useState('');
+  const [instruction, setInstruction] = useState(basedOn.instruction);
+  const [minParts, setMinParts] = useState(basedOn.partBudget ? String(basedOn.partBudget[0]) : '');
+  const [maxParts, setMaxParts] = useState(basedOn.partBudget ? String(basedOn.partBudget[1]) : '');
+  const [palette, setPalette] = useState(basedOn.palette.join(', '));
+  const [temperature, setTemperature] = useState(basedOn.temperature);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const min = parseInt(minParts, 10);
+    const max = parseInt(maxParts, 10);
+    onSave({
+      id: `custom-${Date.now()}`,
+      name: name.trim(),
+      instruction: instruction.trim(),
+      // Half a budget is no budget
+      ...(min > 0 && max >= min ? { partBudget: [min, max] as [number, number] } : {}),
+      palette: palette.split(/[\s,]+/).filter(color => HEX_COLOR.test(color)),
+      temperature,
+      isCustom: true,
+    });
+    setName('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 pt-2 border-t border-cad-700">
+      <span className="text-[10px] uppercase text-gray-400">Save custom style (based on {basedOn.name})</span>
+      <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" />
+      <textarea
+        className={`${inputClass} resize-none`}
+        rows={2}
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="Style guidance, e.g. chrome trim and rounded corners"
+      />
+      <div className="grid grid-cols-4 gap-2">
+        <div>
+          <label className={labelClass}>Min parts</label>
+          <input type="number" min={1} className={inputClass} value={minParts} onChange={(e) => setMinParts(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Max parts</label>
+          <input type="number" min={1} className={inputClass} value={maxParts} onChange={(e) => setMaxParts(e.target.value)} />
+        </div>
+        <div className="col-span-2">
+          <label className={labelClass}>Temperature {temperature.toFixed(1)}</label>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={temperature}
+            onChange={(e) => setTemperature(parseFloat(e.target.value))}
+            className="w-full accent-cyan-500"
+          />
+        </div>
+      </div>
+      <input className={inputClass} value={palette} onChange={(e) => setPalette(e.target.value)} placeholder="Palette: #1d3557, #e63946, ..." />
+      <button
+        type="submit"
+        disabled={!name.trim()}
+        className="self-end flex items-center gap-1 px-3 py-1 rounded bg-cad-accent text-cad-900 font-bold hover:bg-cyan-400 disabled:opacity-40"
+      >
+        <Save className="w-3 h-3" /> SAVE STYLE
+      </button>
+    </form>
+  );
+};
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ presets, activePresetId, onSelectPreset, onSavePreset, onDeletePreset, onUseTemplate, onClose }) => {
+  const [tab, setTab] = useState<'templates' | 'styles'>('templates');
+  const [selectedTemplate, setSelectedTemplate] = useState<PromptTemplate>(PROMPT_TEMPLATES[0]);
+
+  const categories = useMemo(() => Array.from(new Set(PROMPT_TEMPLATES.map(t => t.category))), []);
+  const activePreset = presets.find(p => p.id === activePresetId) ?? presets[0];
+
+  const tabClass = (isActive: boolean) =>
+    `flex items-center gap-1 px-2 py-0.5 rounded transition-colors ${isActive ? 'bg-cad-accent text-cad-900 font-bold' : 'text-gray-400 hover:text-white hover:bg-cad-700'}`;
+
+  return (
+    <div className="absolute bottom-full left-2 right-2 mb-2 max-h-[60vh] flex flex-col bg-cad-800 border border-cad-600 rounded-lg shadow-2xl font-mono text-xs text-gray-300 z-40">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-cad-600">
+        <button type="button" onClick={() => setTab('templates')} className={tabClass(tab === 'templates')}>
+          <BookOpen className="w-3 h-3" /> TEMPLATES
+        </button>
+        <button type="button" onClick={() => setTab('styles')} className={tabClass(tab === 'styles')}>
+          <Palette className="w-3 h-3" /> STYLES
+        </button>
+        <button type="button" onClick={onClose} className="ml-auto hover:bg-white/10 p-1 rounded"><X className="w-4 h-4" /></button>
+      </div>
+
+      {tab === 'templates' ? (
+        <div className="flex-1 min-h-0 grid grid-cols-2">
+          <div className="overflow-y-auto border-r border-cad-700 p-2">
+            {categories.map(category => (
+              <div key={category} className="mb-2">
+                <div className="px-2 text-[10px] uppercase text-gray-500">{category}</div>
+                {PROMPT_TEMPLATES.filter(t => t.category === category).map(template => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => setSelectedTemplate(template)}
+                    className={`block w-full text-left px-2 py-1 rounded truncate ${template.id === selectedTemplate.id ? 'bg-cad-700 text-white' : 'hover:bg-cad-700/50'}`}
+                  >
+                    {template.text}
+                  </button>
+                ))}
+              </div>
+            ))}
+            <div className="px-2 text-[10px] uppercase text-gray-500">Examples</div>
+            {INITIAL_PROMPT_EXAMPLES.map(example => (
+              <button
+                key={example}
+                type="button"
+                onClick={() => onUseTemplate(example)}
+                className="block w-full text-left px-2 py-1 rounded truncate hover:bg-cad-700/50"
+                title="Use this prompt"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+          <div className="overflow-y-auto p-3">
+            {/* Keyed so switching templates resets the placeholder values */}
+            <TemplateForm key={selectedTemplate.id} template={selectedTemplate} onUse={onUseTemplate} />
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto p-2 flex flex-col gap-1">
+          {presets.map(preset => (
+            <div
+              key={preset.id}
+              onClick={() => onSelectPreset(preset.id)}
+              className={`flex items-center gap-3 px-2 py-1.5 rounded border cursor-pointer ${preset.id === activePreset.id ? 'border-cad-accent bg-cad-700' : 'border-transparent hover:bg-cad-700/50'}`}
+            >
+              <div className="w-40 flex-shrink-0">
+                <div className={preset.id === activePreset.id ? 'text-white font-bold' : 'text-gray-200'}>{preset.name}</div>
+                <div className="text-[10px] text-gray-500">
+                  {preset.partBudget ? `${preset.partBudget[0]}-${preset.partBudget[1]} PARTS` : 'ANY PART COUNT'} · T={preset.temperature}
+                </div>
+              </div>
+              <div className="flex gap-0.5 flex-shrink-0">
+                {preset.palette.map(color => (
+                  <span key={color} className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: color }} title={color} />
+                ))}
+              </div>
+              <span className="flex-1 truncate text-[10px] text-gray-400" title={preset.instruction}>{preset.instruction || 'Default generation behaviour'}</span>
+              {preset.isCustom && (
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); onDeletePreset(preset.id); }}
+                  className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-white/10"
+                  title="Delete custom style"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+          <PresetForm key={activePreset.id} basedOn={activePreset} onSave={onSavePreset} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateGallery;
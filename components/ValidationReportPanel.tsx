@@ -0,0 +1,47 @@
+import React from 'react';
+import { ValidationReport } from '../types';
+import { ShieldCheck, Wrench, Ban, X } from 'lucide-react';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  onClose: () => void;
+}
+
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ report, onClose }) => {
+  const repaired = report.issues.filter(issue => issue.severity === 'repaired').length;
+  const rejected = report.issues.filter(issue => issue.severity === 'rejected').length;
+
+  return (
+    <div className="absolute bottom-4 left-4 w-96 max-h-[50%] flex flex-col bg-cad-800/95 border border-cad-600 rounded shadow-xl backdrop-blur-sm font-mono text-xs z-40">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-cad-600 text-white font-bold">
+        <ShieldCheck className="w-4 h-4 text-cad-accent" />
+        <span>VALIDATION REPORT</span>
+        <button onClick={onClose} className="ml-auto hover:bg-white/10 p-1 rounded" title="Dismiss"><X className="w-3 h-3" /></button>
+      </div>
+      <div className="flex gap-4 px-3 py-2 border-b border-cad-700 text-gray-400">
+        <span>{report.partsChecked} parts checked</span>
+        <span className="text-yellow-400">{repaired} repaired</span>
+        <span className="text-red-400">{rejected} rejected</span>
+      </div>
+
+      {/* Issue List */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {report.issues.map((issue, idx) => (
+          <div
+            key={idx}
+            className={`flex items-start gap-2 px-3 py-1 ${issue.severity === 'rejected' ? 'text-red-400' : 'text-yellow-400'}`}
+          >
+            {issue.severity === 'rejected'
+              ? <Ban className="w-3 h-3 flex-shrink-0 mt-0.5" />
+              : <Wrench className="w-3 h-3 flex-shrink-0 mt-0.5" />}
+            {issue.partId && <span className="text-gray-500 flex-shrink-0 max-w-[35%] truncate" title={issue.partId}>{issue.partId}</span>}
+            <span className="break-words text-gray-300">{issue.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
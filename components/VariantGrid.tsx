@@ -0,0 +1,111 @@
+import React, { useMemo, useRef } from 'react';
+import { DesignVariant, GeneratedModel, ShapeType } from '../types';
+import { DEFAULT_UNITS } from '../constants';
+import Viewer3D, { CameraSync, createCameraSync } from './Viewer3D';
+import { estimateModelBounds } from '../services/geometryService';
+import { isBooleanTool } from '../services/csgService';
+import { analyzePlausibility } from '../services/plausibilityService';
+import { LayoutGrid, Loader2, Check, X } from 'lucide-react';
+import * as THREE from 'three';
+
+interface VariantGridProps {
+  variants: DesignVariant[];
+  pendingCount: number; // Variants still being generated
+  activeVariantId: string | null;
+  onPick: (variantId: string) => void;
+  onClose: () => void;
+}
+
+// Previews never change view mode, they follow the shared camera instead
+const PREVIEW_VIEW = { mode: 'ISO', t: 0 };
+
+const getModelStats = (model: GeneratedModel) => {
+  const size = estimateModelBounds(model).getSize(new THREE.Vector3());
+  return {
+    groups: model.parts.filter(p => p.type === ShapeType.GROUP).length,
+    cuts: model.parts.filter(p => isBooleanTool(p, model.parts)).length,
+    size: [size.x, size.y, size.z].map(n => Number(n.toPrecision(3))).join(' × '),
+    findings: analyzePlausibility(model).length,
+  };
+};
+
+interface VariantCardProps {
+  variant: DesignVariant;
+  isActive: boolean;
+  canPick: boolean; // False while other variants are still generating
+  sync: CameraSync;
+  onPick: () => void;
+}
+
+const VariantCard: React.FC<VariantCardProps> = ({ variant, isActive, canPick, sync, onPick }) => {
+  const stats = useMemo(() => getModelStats(variant.model), [variant.model]);
+  const repairs = variant.report.issues.length;
+
+  return (
+    <div className={`flex flex-col min-h-0 bg-cad-800 border rounded overflow-hidden ${isActive ? 'border-cad-accent' : 'border-cad-600'}`}>
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-cad-600 text-[10px]">
+        <span className="font-bold text-white">V{variant.seed}</span>
+        <span className="truncate text-gray-300" title={variant.model.name}>{variant.model.name}</span>
+        <span className="ml-auto text-gray-500">T={variant.temperature}</span>
+      </div>
+
+      <div className="flex-1 min-h-0 relative">
+        <Viewer3D model={variant.model} viewState={PREVIEW_VIEW} onViewChange={() => {}} compact cameraSync={sync} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-x-3 gap-y-0.5 px-3 py-1.5 border-t border-cad-600 text-[10px]">
+        <span><span className="text-gray-500">PARTS </span><span className="text-white">{variant.model.parts.length}</span></span>
+        <span><span className="text-gray-500">GROUPS </span><span className="text-white">{stats.groups}</span></span>
+        <span><span className="text-gray-500">CUTS </span><span className="text-white">{stats.cuts}</span></span>
+        <span className="col-span-3 truncate"><span className="text-gray-500">SIZE </span><span className="text-white">{stats.size} {variant.model.units ?? DEFAULT_UNITS}</span></span>
+        <span className={stats.findings > 0 ? 'text-yellow-400' : 'text-green-400'}>{stats.findings > 0 ? `${stats.findings} CHECKS` : 'PLAUSIBLE'}</span>
+        <span className={repairs > 0 ? 'text-yellow-400' : 'text-gray-500'}>{repairs} REPAIRS</span>
+        <button
+          onClick={onPick}
+          disabled={isActive || !canPick}
+          title={canPick ? undefined : 'Available once every variant is ready'}
+          className="flex items-center justify-center gap-1 rounded bg-cad-accent text-cad-900 font-bold hover:bg-cyan-400 disabled:bg-cad-700 disabled:text-cad-accent transition-colors"
+        >
+          {isActive ? <><Check className="w-3 h-3" /> ACTIVE</> : 'USE'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const VariantGrid: React.FC<VariantGridProps> = ({ variants, pendingCount, activeVariantId, onPick, onClose }) => {
+  // One camera for all previews: orbiting any of them turns the others too
+  const sync = useRef(createCameraSync()).current;
+  const cellCount = variants.length + pendingCount;
+
+  return (
+    <div className="absolute inset-0 z-40 bg-cad-900/95 flex flex-col font-mono text-xs">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-cad-600 text-white font-bold">
+        <LayoutGrid className="w-4 h-4 text-cad-accent" />
+        <span>DESIGN VARIANTS</span>
+        <span className="font-normal text-gray-500">Orbit any preview to compare the same view</span>
+        <button onClick={onClose} className="ml-auto hover:bg-white/10 p-1 rounded" title="Close comparison"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className={`flex-1 min-h-0 grid gap-3 p-3 ${cellCount > 2 ? 'grid-cols-2 grid-rows-2' : 'grid-cols-2 grid-rows-1'}`}>
+        {variants.map(variant => (
+          <VariantCard
+            key={variant.id}
+            variant={variant}
+            isActive={variant.id === activeVariantId}
+            canPick={pendingCount === 0}
+            sync={sync}
+            onPick={() => onPick(variant.id)}
+          />
+        ))}
+        {Array.from({ length: pendingCount }, (_, idx) => (
+          <div key={`pending-${idx}`} className="flex items-center justify-center gap-2 bg-cad-800/50 border border-dashed border-cad-600 rounded text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" /> GENERATING...
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariantGrid;
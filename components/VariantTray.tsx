@@ -0,0 +1,33 @@
+import React from 'react';
+import { DesignVariant } from '../types';
+import { LayoutGrid } from 'lucide-react';
+
+interface VariantTrayProps {
+  variants: DesignVariant[];
+  activeVariantId: string | null;
+  canPick: boolean; // False while other variants are still generating
+  onPick: (variantId: string) => void;
+  onCompare: () => void;
+}
+
+const VariantTray: React.FC<VariantTrayProps> = ({ variants, activeVariantId, canPick, onPick, onCompare }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-cad-900/90 border border-cad-600 rounded px-2 py-1 font-mono text-[10px] z-30 shadow-xl">
+    <span className="text-gray-500 mr-1">VARIANTS</span>
+    {variants.map(variant => (
+      <button
+        key={variant.id}
+        onClick={() => onPick(variant.id)}
+        disabled={!canPick}
+        title={`${variant.model.name} · ${variant.model.parts.length} parts · T=${variant.temperature}`}
+        className={`px-2 py-0.5 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none ${variant.id === activeVariantId ? 'bg-cad-accent text-cad-900 font-bold' : 'text-gray-300 hover:bg-cad-700 hover:text-white'}`}
+      >
+        V{variant.seed}
+      </button>
+    ))}
+    <button onClick={onCompare} className="ml-1 p-1 rounded text-cad-accent hover:bg-cad-700" title="Compare variants side by side">
+      <LayoutGrid className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+export default VariantTray;
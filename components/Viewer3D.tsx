@@ -1,10 +1,33 @@
-import React, { Suspense, useEffect, useState } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
-import { OrbitControls, Grid, Environment, GizmoHelper, GizmoViewport, Center, Bounds } from '@react-three/drei';
-import { GeneratedModel } from '../types';
-import ShapeRenderer from './ShapeRenderer';
-import { MousePointer2, Move3d, Search, Box, ArrowUp, ArrowRight } from 'lucide-react';
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, Grid, Environment, GizmoHelper, GizmoViewport, Center, Edges, Html, TransformControls, PerspectiveCamera, OrthographicCamera } from '@react-three/drei';
+import { CameraBookmark, CameraProjection, Dimension, DimensionKind, GeneratedModel, ImageAttachment, ModelPart, PartChange, PlausibilityFinding, PlausibilityKind, PrimitiveType, SectionPlane, ShapeType } from '../types';
+import ShapeRenderer, { CLICK_DRAG_TOLERANCE } from './ShapeRenderer';
+import DimensionMarker from './DimensionMarker';
+import DisplayPanel from './DisplayPanel';
+import ViewsPanel from './ViewsPanel';
+import MeasurePanel from './MeasurePanel';
+import SectionPanel from './SectionPanel';
+import PrimitivePalette, { PRIMITIVE_DRAG_TYPE } from './PrimitivePalette';
+import { createHatchTexture, createStencilMaterials, DEFAULT_CAP_COLOR, DEFAULT_HATCH_COLOR, SectionCap, SectionHandle, SectionPlaneSync } from './SectionView';
+import { buildPartTree, getInheritedIds, PartNode } from '../services/hierarchyService';
+import { BooleanCache, computeBooleanGeometries, isBooleanTool } from '../services/csgService';
+import { estimateModelBounds, getGridCellSize } from '../services/geometryService';
+import { SelectionMode } from '../services/selectionService';
+import { getPartBounds, resizePart } from '../services/primitiveRegistry';
+import { createPart } from '../services/modelingService';
+import { getChangedFields } from '../services/patchService';
+import { AlignAnchor, alignParts, Axis, createPartSnapper, distributeParts, placeOnGround } from '../services/snapService';
+import { createDimension, MEASURE_TOOLS, MeasurePick, snapToCorner } from '../services/measureService';
+import { createUniqueId } from '../services/modelingService';
+import { createAxisSection, createFaceSection } from '../services/sectionService';
+import { saveSnapshot } from '../services/exportService';
+import { ColorBy, DisplayMode, getDisplayColors, getExplodeOffsets } from '../services/displayService';
+import { CameraPose, frameBounds, getPerspectiveDistance, getProjection, getStandardView, getViewHeight, interpolatePose } from '../services/cameraService';
+import { DEFAULT_UNITS, PART_SNAP_DISTANCE } from '../constants';
+import { MousePointer2, Move3d, Search, Box, ArrowUp, ArrowRight, Image as ImageIcon, ChevronLeft, ChevronRight, ShieldAlert, BoxSelect, Move, Rotate3d, Scaling, Globe, Magnet, Crosshair, ArrowDownToLine, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignHorizontalSpaceBetween, Ruler, SquareSplitHorizontal, Bookmark, Palette, LucideIcon } from 'lucide-react';
 import * as THREE from 'three';
+import { acceleratedRaycast, MeshBVH } from 'three-mesh-bvh';
 
 interface ViewState {
   mode: string;
@@ -12,50 +35,519 @@ interface ViewState {
 }
 
 interface Viewer3DProps {
-  model: GeneratedModel | null;
-  buildingSpeed?: number;
+  model: GeneratedModel | null; // Grows part by part while a generation streams in
+  referenceImages?: ImageAttachment[]; // Sketches/photos the model was generated from
   viewState: ViewState;
   onViewChange: (viewMode: string) => void;
+  findings?: PlausibilityFinding[]; // Physical plausibility problems to highlight
+  compact?: boolean; // Bare preview without overlays, toolbars or gizmo
+  cameraSync?: CameraSync; // Shared by previews that should orbit together
+  selectedIds?: string[];
+  onSelect?: (partIds: string[], mode: SelectionMode) => void; // Parts are only selectable when set
+  onPartChange?: (change: PartChange) => void; // Enables the transform gizmo on the primary selection
+  onChangeParts?: (changes: PartChange[], label: string) => void; // Enables align, distribute and place on ground
+  onAddParts?: (parts: ModelPart[]) => void; // Enables the primitive palette
+  onChangeDimensions?: (dimensions: Dimension[], label: string) => void; // Lets measurements be kept with the model
+  onChangeBookmarks?: (bookmarks: CameraBookmark[], label: string) => void; // Lets views be saved with the model
+  onChangeSections?: (sections: SectionPlane[], label: string, coalesceKey?: string) => void; // Lets section planes be added and moved
 }
 
-// Inner component to handle programmatic camera movement
-const CameraController = ({ viewState }: { viewState: ViewState }) => {
-   const { camera } = useThree();
-   const controls = useThree(state => state.controls) as unknown as { target: THREE.Vector3, update: () => void, object: THREE.Camera };
-   
+type TransformMode = 'translate' | 'rotate' | 'scale';
+
+interface TransformSettings {
+  mode: TransformMode;
+  space: 'world' | 'local';
+  snap: boolean; // Fixed steps; moves snap the part's origin to the grid
+  snapToParts: boolean; // Moves snap to the faces, edges and centers of other parts
+  translateStep: number | null; // Model units; null follows the grid spacing
+  rotateStep: number; // Degrees
+  scaleStep: number;
+}
+
+const ALIGN_ANCHORS: { anchor: AlignAnchor, label: string, Icon: LucideIcon }[] = [
+  { anchor: 'min', label: 'Align min', Icon: AlignStartVertical },
+  { anchor: 'center', label: 'Align centers', Icon: AlignCenterVertical },
+  { anchor: 'max', label: 'Align max', Icon: AlignEndVertical },
+];
+
+const TRANSFORM_MODES: { mode: TransformMode, key: string, label: string, Icon: typeof Move }[] = [
+  { mode: 'translate', key: 'w', label: 'Move', Icon: Move },
+  { mode: 'rotate', key: 'e', label: 'Rotate', Icon: Rotate3d },
+  { mode: 'scale', key: 'r', label: 'Scale', Icon: Scaling },
+];
+
+// Strips float noise such as 0.30000000000000004 from edited values
+const roundValue = (value: number) => Number(value.toPrecision(7));
+
+// Screen rectangle in pixels, relative to the viewport
+interface ScreenRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+type PartsInRect = (rect: ScreenRect) => string[];
+
+// Model-space point on the ground plane under a client (screen) position, or below the grid origin without one
+type GroundPointAt = (client?: { x: number, y: number }) => THREE.Vector3 | null;
+
+/**
+ * Camera state shared between synchronized viewers. Distance is relative to each
+ * viewer's model size so models of different sizes stay framed the same way.
+ */
+export interface CameraSync {
+  direction: THREE.Vector3; // From the orbit target towards the camera
+  zoom: number; // Camera distance / model size
+  version: number; // Bumped on every change
+}
+
+export const createCameraSync = (): CameraSync => ({
+  direction: new THREE.Vector3(1, 1, 1).normalize(),
+  zoom: 1.25 * Math.sqrt(3), // Same framing as the ISO view
+  version: 0,
+});
+
+// Size used to frame an empty scene (matches the original 8-unit build area)
+const EMPTY_SCENE_SIZE = 8;
+
+const FINDING_COLORS: Record<PlausibilityKind, string> = {
+  floating: '#f97316',
+  disconnected: '#eab308',
+  'ground-gap': '#d946ef',
+  interpenetration: '#ef4444',
+};
+
+// Field of view of the perspective camera, also used to convert between the two projections
+const CAMERA_FOV = 45;
+
+// Duration of the flight to a standard view or bookmark
+const VIEW_TRANSITION_MS = 600;
+
+// A saved view without its name, in model space
+type CameraView = Omit<CameraBookmark, 'id' | 'name'>;
+
+// Lets the bookmark panel, which lives outside the canvas, capture the current view and fly to saved ones
+interface CameraProbe {
+  capture: () => CameraView | null;
+  flyTo: (view: CameraView) => void;
+}
+
+type OrbitLike = THREE.EventDispatcher<{ start: {} }> & { target: THREE.Vector3, update: () => void };
+
+interface CameraControllerProps {
+  viewState: ViewState;
+  bounds: THREE.Box3; // Model space; standard views frame it
+  modelSize: number;
+  modelRef: React.RefObject<THREE.Group | null>;
+  probeRef?: React.MutableRefObject<CameraProbe | null>;
+  onProjectionChange?: (projection: CameraProjection) => void; // Asked for by bookmarks saved in the other projection
+}
+
+// Inner component to handle programmatic camera movement. Switching the projection replaces the camera
+// and the orbit controls, so the last pose is carried over to the new camera
+const CameraController = ({ viewState, bounds, modelSize, modelRef, probeRef, onProjectionChange }: CameraControllerProps) => {
+   const camera = useThree(state => state.camera);
+   const size = useThree(state => state.size);
+   const controls = useThree(state => state.controls) as unknown as OrbitLike | null;
+   const flight = useRef<{ from: CameraPose, to: CameraPose, start: number } | null>(null);
+   const lastPose = useRef<CameraPose | null>(null); // World space, kept every frame
+   const pendingPose = useRef<CameraPose | null>(null); // Waits for the camera of the other projection
+
+   const getPose = useCallback((): CameraPose | null => controls && {
+      position: camera.position.clone(),
+      target: controls.target.clone(),
+      viewHeight: getViewHeight(camera, controls.target),
+   }, [camera, controls]);
+
+   const applyPose = useCallback((pose: CameraPose) => {
+      if (!controls) return;
+      camera.position.copy(pose.position);
+      controls.target.copy(pose.target);
+      if ((camera as THREE.OrthographicCamera).isOrthographicCamera) {
+         const ortho = camera as THREE.OrthographicCamera;
+         ortho.zoom = (ortho.top - ortho.bottom) / pose.viewHeight;
+         ortho.updateProjectionMatrix();
+      }
+      controls.update();
+   }, [camera, controls]);
+
+   const flyTo = useCallback((pose: CameraPose, animate = true) => {
+      const from = getPose();
+      if (!animate || !from) {
+         flight.current = null;
+         applyPose(pose);
+         return;
+      }
+      flight.current = { from, to: pose, start: performance.now() };
+   }, [getPose, applyPose]);
+
+   // Orbiting by hand ends a flight
+   useEffect(() => {
+      if (!controls) return;
+      const handleStart = () => { flight.current = null; };
+      controls.addEventListener('start', handleStart);
+      return () => controls.removeEventListener('start', handleStart);
+   }, [controls]);
+
+   // Frames the visible bounds from the requested standard view
+   const frameView = (animate: boolean) => {
+      const box = bounds.isEmpty() || !modelRef.current
+         ? new THREE.Box3().setFromCenterAndSize(new THREE.Vector3(), new THREE.Vector3().setScalar(EMPTY_SCENE_SIZE))
+         : bounds.clone().applyMatrix4(modelRef.current.matrixWorld);
+      const direction = new THREE.Vector3(...getStandardView(viewState.mode).direction);
+      flyTo(frameBounds(box, direction, size.width / size.height, CAMERA_FOV), animate);
+   };
+
+   // New controls come with a new camera: keep looking at the same spot with the same height in view
    useEffect(() => {
-      if(!controls) return;
-      
-      const distance = 15; // Standard viewing distance
-
-      // We maintain the current target (center of model) but move the camera position
-      switch(viewState.mode) {
-         case 'TOP':
-            camera.position.set(0, distance, 0);
-            break;
-         case 'BOTTOM':
-            camera.position.set(0, -distance, 0);
-            break;
-         case 'FRONT':
-            camera.position.set(0, 0, distance);
-            break;
-         case 'SIDE':
-            camera.position.set(distance, 0, 0);
-            break;
-         case 'ISO':
-         default:
-            camera.position.set(10, 10, 10);
-            break;
+      if (!controls) return;
+      const previous = lastPose.current;
+      if (previous) {
+         const offset = previous.position.clone().sub(previous.target);
+         const distance = getProjection(camera) === 'perspective' ? getPerspectiveDistance(previous.viewHeight, CAMERA_FOV) : offset.length();
+         applyPose({ ...previous, position: previous.target.clone().addScaledVector(offset.normalize(), distance) });
+      } else {
+         frameView(false);
       }
-      
-      controls.target.set(0, 0, 0);
+      if (pendingPose.current) {
+         flyTo(pendingPose.current);
+         pendingPose.current = null;
+      }
+   }, [controls]); // Only a new camera should trigger this, not new callbacks
+
+   // Framing follows explicit view requests and model size changes, not every edit of the bounds
+   useEffect(() => {
+      if (controls) frameView(true);
+   }, [viewState, modelSize]); // Depend on the entire viewState object (including timestamp)
+
+   useEffect(() => {
+      if (!probeRef) return;
+      probeRef.current = {
+         capture: () => {
+            const pose = getPose();
+            if (!pose || !modelRef.current) return null;
+            const toModel = modelRef.current.matrixWorld.clone().invert();
+            return {
+               projection: getProjection(camera),
+               position: pose.position.applyMatrix4(toModel).toArray(),
+               target: pose.target.applyMatrix4(toModel).toArray(),
+               viewHeight: pose.viewHeight,
+            };
+         },
+         flyTo: (view) => {
+            if (!modelRef.current) return;
+            const toWorld = modelRef.current.matrixWorld;
+            const pose = {
+               position: new THREE.Vector3(...view.position).applyMatrix4(toWorld),
+               target: new THREE.Vector3(...view.target).applyMatrix4(toWorld),
+               viewHeight: view.viewHeight,
+            };
+            if (view.projection === getProjection(camera) || !onProjectionChange) {
+               flyTo(pose);
+               return;
+            }
+            pendingPose.current = pose;
+            onProjectionChange(view.projection);
+         },
+      };
+      return () => { probeRef.current = null; };
+   }, [probeRef, camera, modelRef, getPose, flyTo, onProjectionChange]);
+
+   useFrame(() => {
+      if (!controls) return;
+      if (flight.current) {
+         const t = Math.min(1, (performance.now() - flight.current.start) / VIEW_TRANSITION_MS);
+         applyPose(interpolatePose(flight.current.from, flight.current.to, t * t * (3 - 2 * t)));
+         if (t >= 1) flight.current = null;
+      }
+      lastPose.current = getPose();
+   });
+
+   return null;
+}
+
+// Translucent box over the region a finding refers to; never blocks picking
+const FindingMarker = ({ finding, minSize }: { finding: PlausibilityFinding, minSize: number }) => {
+   const box = new THREE.Box3(new THREE.Vector3(...finding.region.min), new THREE.Vector3(...finding.region.max));
+   const center = box.getCenter(new THREE.Vector3());
+   const size = box.getSize(new THREE.Vector3()).max(new THREE.Vector3(minSize, minSize, minSize));
+   const color = FINDING_COLORS[finding.kind];
+
+   return (
+      <mesh position={center} scale={size} raycast={() => null}>
+         <boxGeometry />
+         <meshBasicMaterial color={color} transparent opacity={0.15} depthWrite={false} />
+         <Edges color={color} />
+      </mesh>
+   );
+};
+
+// Mirrors this viewer's orbit into the shared sync state and follows changes made in other viewers
+const CameraSyncController = ({ sync, modelSize }: { sync: CameraSync, modelSize: number }) => {
+   const camera = useThree(state => state.camera);
+   const controls = useThree(state => state.controls) as unknown as (THREE.EventDispatcher<{ change: {} }> & { target: THREE.Vector3, update: () => void }) | null;
+   const seenVersion = useRef(-1);
+   const isApplying = useRef(false);
+
+   useEffect(() => {
+      if (!controls) return;
+      const handleChange = () => {
+         if (isApplying.current) return;
+         const offset = camera.position.clone().sub(controls.target);
+         sync.direction.copy(offset).normalize();
+         sync.zoom = offset.length() / modelSize;
+         seenVersion.current = ++sync.version;
+      };
+      controls.addEventListener('change', handleChange);
+      return () => controls.removeEventListener('change', handleChange);
+   }, [controls, camera, sync, modelSize]);
+
+   useFrame(() => {
+      if (!controls || seenVersion.current === sync.version) return;
+      seenVersion.current = sync.version;
+      isApplying.current = true;
+      camera.position.copy(controls.target).addScaledVector(sync.direction, sync.zoom * modelSize);
       controls.update();
-      
-   }, [viewState, camera, controls]); // Depend on the entire viewState object (including timestamp)
-   
+      isApplying.current = false;
+   });
+
+   return null;
+};
+
+// Lets the box-select overlay, which lives outside the canvas, ask which parts lie inside a screen rectangle
+const BoxSelectProbe = ({ probeRef }: { probeRef: React.MutableRefObject<PartsInRect | null> }) => {
+   const camera = useThree(state => state.camera);
+   const scene = useThree(state => state.scene);
+   const size = useThree(state => state.size);
+
+   useEffect(() => {
+      probeRef.current = (rect) => {
+         const partIds = new Set<string>();
+         const box = new THREE.Box3();
+         const corner = new THREE.Vector3();
+
+         // A part is picked when its whole bounding box projects into the rectangle
+         const isInside = (x: number, y: number, z: number) => {
+            corner.set(x, y, z).project(camera);
+            if (corner.z > 1) return false; // Behind the camera
+            const px = ((corner.x + 1) / 2) * size.width;
+            const py = ((1 - corner.y) / 2) * size.height;
+            return px >= rect.left && px <= rect.right && py >= rect.top && py <= rect.bottom;
+         };
+
+         scene.traverse(object => {
+            const partId = object.userData.partId;
+            if (!partId || !(object as THREE.Mesh).isMesh) return;
+            box.setFromObject(object);
+            if (box.isEmpty()) return;
+            const { min, max } = box;
+            const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => [i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z]);
+            if (corners.every(([x, y, z]) => isInside(x, y, z))) partIds.add(partId);
+         });
+         return Array.from(partIds);
+      };
+      return () => { probeRef.current = null; };
+   }, [camera, scene, size, probeRef]);
+
+   return null;
+};
+
+// Lets the palette, which lives outside the canvas, place parts on the ground (the model's Y = 0 plane,
+// where the grid is drawn). The model group is offset by <Center>, so world points are converted into its frame
+const GroundProbe = ({ probeRef, modelRef }: { probeRef: React.MutableRefObject<GroundPointAt | null>, modelRef: React.RefObject<THREE.Group | null> }) => {
+   const camera = useThree(state => state.camera);
+   const gl = useThree(state => state.gl);
+
+   useEffect(() => {
+      const raycaster = new THREE.Raycaster();
+      const ground = new THREE.Plane();
+
+      probeRef.current = (client) => {
+         if (!modelRef.current) return null;
+         let point = modelRef.current.localToWorld(new THREE.Vector3());
+         if (client) {
+            ground.setFromNormalAndCoplanarPoint(new THREE.Vector3(0, 1, 0), point);
+            const rect = gl.domElement.getBoundingClientRect();
+            const ndc = new THREE.Vector2(((client.x - rect.left) / rect.width) * 2 - 1, -((client.y - rect.top) / rect.height) * 2 + 1);
+            raycaster.setFromCamera(ndc, camera);
+            // Above the horizon there is no ground to drop on
+            const hit = raycaster.ray.intersectPlane(ground, point);
+            if (!hit) return null;
+            point = hit;
+         }
+         return modelRef.current.worldToLocal(point);
+      };
+      return () => { probeRef.current = null; };
+   }, [camera, gl, probeRef, modelRef]);
+
+   return null;
+};
+
+interface SurfaceProbeProps {
+  modelRef: React.RefObject<THREE.Group | null>;
+  cornerSnap: number;
+  clippingPlanes: THREE.Plane[]; // Active section planes, world space; what they cut away can't be picked
+  onPick: (pick: MeasurePick) => void;
+}
+
+// Picks points on the rendered parts for the measure tools and section faces. Clicks that turn into orbit drags
+// are ignored, and points close to a corner of the hit triangle snap onto it. Part meshes get a bounds tree
+// the first time they are probed, so picks on large boolean results stay fast
+const SurfaceProbe = ({ modelRef, cornerSnap, clippingPlanes, onPick }: SurfaceProbeProps) => {
+   const camera = useThree(state => state.camera);
+   const gl = useThree(state => state.gl);
+   const onPickRef = useRef(onPick);
+   onPickRef.current = onPick;
+   const clippingPlanesRef = useRef(clippingPlanes);
+   clippingPlanesRef.current = clippingPlanes;
+
+   useEffect(() => {
+      const raycaster = new THREE.Raycaster();
+      let pressedAt: { x: number, y: number } | null = null;
+
+      const handlePointerDown = (e: PointerEvent) => { pressedAt = e.button === 0 ? { x: e.clientX, y: e.clientY } : null; };
+      const handlePointerUp = (e: PointerEvent) => {
+         const model = modelRef.current;
+         if (!model || !pressedAt || Math.hypot(e.clientX - pressedAt.x, e.clientY - pressedAt.y) > CLICK_DRAG_TOLERANCE) return;
+         const rect = gl.domElement.getBoundingClientRect();
+         raycaster.setFromCamera(new THREE.Vector2(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1), camera);
+
+         // Only the drawn part meshes carry a part id (not the ghost meshes, edges or markers)
+         const meshes: THREE.Mesh[] = [];
+         model.traverse(object => {
+            const mesh = object as THREE.Mesh;
+            if (!mesh.isMesh || !mesh.userData.partId || !mesh.visible) return;
+            if (!mesh.geometry.boundsTree) mesh.geometry.boundsTree = new MeshBVH(mesh.geometry);
+            mesh.raycast = acceleratedRaycast;
+            meshes.push(mesh);
+         });
+
+         // Each mesh reports its nearest hit; hits on the side a section plane cuts away don't count
+         const isKept = (point: THREE.Vector3) => clippingPlanesRef.current.every(plane => plane.distanceToPoint(point) >= 0);
+         const hit = raycaster.intersectObjects(meshes, false)
+            .filter(h => h.face && isKept(h.point))
+            .sort((a, b) => a.distance - b.distance)[0];
+         if (!hit || !hit.face) return;
+         const mesh = hit.object as THREE.Mesh;
+         const toModel = model.matrixWorld.clone().invert().multiply(mesh.matrixWorld);
+         const point = snapToCorner(mesh.geometry, toModel, model.worldToLocal(hit.point.clone()), hit.face, cornerSnap);
+         const normal = hit.face.normal.clone().applyMatrix3(new THREE.Matrix3().getNormalMatrix(toModel)).normalize();
+         onPickRef.current({ point, normal, partId: mesh.userData.partId, geometry: mesh.geometry, matrix: toModel });
+      };
+
+      gl.domElement.addEventListener('pointerdown', handlePointerDown);
+      gl.domElement.addEventListener('pointerup', handlePointerUp);
+      return () => {
+         gl.domElement.removeEventListener('pointerdown', handlePointerDown);
+         gl.domElement.removeEventListener('pointerup', handlePointerUp);
+      };
+   }, [camera, gl, modelRef, cornerSnap]);
+
    return null;
+};
+
+// Lets the section panel, which lives outside the canvas, grab a rendered image of the view.
+// The frame is drawn right before reading it back, so the drawing buffer doesn't need to be preserved
+const SnapshotProbe = ({ probeRef }: { probeRef: React.MutableRefObject<(() => string) | null> }) => {
+   const gl = useThree(state => state.gl);
+   const scene = useThree(state => state.scene);
+   const camera = useThree(state => state.camera);
+
+   useEffect(() => {
+      probeRef.current = () => {
+         gl.render(scene, camera);
+         return gl.domElement.toDataURL('image/png');
+      };
+      return () => { probeRef.current = null; };
+   }, [gl, scene, camera, probeRef]);
+
+   return null;
+};
+
+interface PartGizmoProps {
+  model: GeneratedModel;
+  part: ModelPart;
+  settings: TransformSettings;
+  gridCellSize: number;
+  booleanGeometries: Map<string, THREE.BufferGeometry>;
+  onCommit: (change: PartChange) => void;
 }
 
+// Drags the frame of the part being edited; the part's data is written back when the drag ends.
+// Moves snap in model space while dragging, so the grid and the other parts line up with the stored positions
+const PartGizmo = ({ model, part, settings, gridCellSize, booleanGeometries, onCommit }: PartGizmoProps) => {
+   const scene = useThree(state => state.scene);
+   const [target, setTarget] = useState<THREE.Object3D | null>(null);
+   const snapperRef = useRef<ReturnType<typeof createPartSnapper> | null>(null);
+
+   useEffect(() => {
+      let frame: THREE.Object3D | null = null;
+      scene.traverse(object => {
+         if (object.userData.partFrame === part.id) frame = object;
+      });
+      setTarget(frame);
+   }, [scene, part]);
+
+   const handleMouseDown = () => {
+      const isSnapping = settings.mode === 'translate' && (settings.snap || settings.snapToParts);
+      snapperRef.current = isSnapping
+         ? createPartSnapper(model, part.id, {
+            gridStep: settings.snap ? settings.translateStep ?? gridCellSize : null,
+            partDistance: settings.snapToParts ? gridCellSize * PART_SNAP_DISTANCE : null,
+            geometries: booleanGeometries,
+         })
+         : null;
+   };
+
+   const handleObjectChange = () => {
+      if (!target || !snapperRef.current) return;
+      target.position.fromArray(snapperRef.current(target.position.toArray()));
+   };
+
+   const handleMouseUp = () => {
+      snapperRef.current = null;
+      if (!target) return;
+      const change: PartChange = {
+         id: part.id,
+         position: target.position.toArray().map(roundValue) as [number, number, number],
+         rotation: [target.rotation.x, target.rotation.y, target.rotation.z].map(roundValue) as [number, number, number],
+      };
+
+      if (settings.mode === 'scale') {
+         const factor = target.scale.toArray().map(roundValue) as [number, number, number];
+         if (part.type === ShapeType.GROUP) {
+            // A group's frame carries its scale
+            change.scale = factor;
+         } else {
+            // Regular parts keep their scale on the mesh, the frame was only stretched for the preview
+            target.scale.set(1, 1, 1);
+            const { args, scale } = resizePart(part, factor);
+            change.scale = scale.map(roundValue) as [number, number, number];
+            if (args) change.args = args.map(roundValue);
+         }
+      }
+
+      if (getChangedFields(part, change).length > 0) onCommit(change);
+   };
+
+   if (!target) return null;
+
+   return (
+      <TransformControls
+         object={target}
+         mode={settings.mode}
+         space={settings.space}
+         rotationSnap={settings.snap ? THREE.MathUtils.degToRad(settings.rotateStep) : null}
+         scaleSnap={settings.snap ? settings.scaleStep : null}
+         size={0.8}
+         onMouseDown={handleMouseDown}
+         onObjectChange={handleObjectChange}
+         onMouseUp={handleMouseUp}
+      />
+   );
+};
+
 interface ViewButtonProps {
   onClick: () => void;
   isActive: boolean;
@@ -79,31 +571,416 @@ const ViewButton: React.FC<ViewButtonProps> = ({ onClick, isActive, title, child
   </button>
 );
 
-const Viewer3D: React.FC<Viewer3DProps> = ({ model, buildingSpeed = 100, viewState, onViewChange }) => {
-  const [visiblePartsCount, setVisiblePartsCount] = useState(0);
+const Viewer3D: React.FC<Viewer3DProps> = ({ model, referenceImages = [], viewState, onViewChange, findings = [], compact = false, cameraSync, selectedIds = [], onSelect, onPartChange, onChangeParts, onAddParts, onChangeDimensions, onChangeBookmarks, onChangeSections }) => {
+  const [showFindings, setShowFindings] = useState(true);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [isBoxSelecting, setIsBoxSelecting] = useState(false);
+  const [dragRect, setDragRect] = useState<{ x0: number, y0: number, x1: number, y1: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const pointerRef = useRef({ x: 0, y: 0 });
+  const probeRef = useRef<PartsInRect | null>(null);
+  const groundProbeRef = useRef<GroundPointAt | null>(null);
+  const modelGroupRef = useRef<THREE.Group>(null);
+  // World position of the model's origin after <Center>; the grid is drawn through it so its lines match model coordinates
+  const [modelOrigin, setModelOrigin] = useState<[number, number, number]>([0, 0, 0]);
+  const handleCentered = useCallback(({ center, horizontalAlignment, verticalAlignment, depthAlignment }: { center: THREE.Vector3, horizontalAlignment: number, verticalAlignment: number, depthAlignment: number }) =>
+    setModelOrigin([horizontalAlignment - center.x, verticalAlignment - center.y, depthAlignment - center.z]), []);
+  const [arrangeAxis, setArrangeAxis] = useState<Axis>(0);
+  const [measureKind, setMeasureKind] = useState<DimensionKind | null>(null); // Active measure tool, null when not measuring
+  const [measurePicks, setMeasurePicks] = useState<MeasurePick[]>([]);
+  const [measurement, setMeasurement] = useState<Dimension | null>(null); // Latest result, shown until kept or replaced
+  const [measureError, setMeasureError] = useState<string | null>(null);
+  const [showDimensions, setShowDimensions] = useState(true);
+  const [showSectionPanel, setShowSectionPanel] = useState(false);
+  const [isPickingSectionFace, setIsPickingSectionFace] = useState(false);
+  const [draggedSection, setDraggedSection] = useState<{ id: string, offset: number } | null>(null);
+  const [capColor, setCapColor] = useState(DEFAULT_CAP_COLOR);
+  const [hatchColor, setHatchColor] = useState(DEFAULT_HATCH_COLOR);
+  const snapshotRef = useRef<(() => string) | null>(null);
+  const [projection, setProjection] = useState<CameraProjection>('perspective');
+  const [showViewsPanel, setShowViewsPanel] = useState(false);
+  const [activeBookmarkId, setActiveBookmarkId] = useState<string | null>(null); // Shown as the view until another one is picked
+  const cameraProbeRef = useRef<CameraProbe | null>(null);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('shaded-edges');
+  const [colorBy, setColorBy] = useState<ColorBy>('original');
+  const [explode, setExplode] = useState(0); // 0 is assembled, 1 doubles every distance from the centroid
+  const [showDisplayPanel, setShowDisplayPanel] = useState(false);
+  const [transform, setTransform] = useState<TransformSettings>({
+    mode: 'translate',
+    space: 'world',
+    snap: false,
+    snapToParts: false,
+    translateStep: null,
+    rotateStep: 15,
+    scaleStep: 0.1,
+  });
+  const [showReference, setShowReference] = useState(false);
+  const [referenceOpacity, setReferenceOpacity] = useState(0.4);
+  const [referenceIndex, setReferenceIndex] = useState(0);
 
+  // New references replace the old ones, show them right away for comparison
   useEffect(() => {
-    setVisiblePartsCount(0);
-  }, [model]);
+    setReferenceIndex(0);
+    setShowReference(referenceImages.length > 0);
+  }, [referenceImages]);
+
+  const activeReference = referenceImages[referenceIndex];
+
+  const partTree = useMemo(() => (model ? buildPartTree(model.parts) : []), [model?.parts]);
+
+  // CSG results are evaluated once per model and handed to the affected parts
+  // Keyed on the parts alone: sections, dimensions and bookmarks change the model without touching any geometry.
+  // Results whose part and tools are unchanged carry over, so streamed parts don't re-run every cut
+  const booleanCacheRef = useRef<BooleanCache>(new Map());
+  const booleanGeometries = useMemo(() => {
+    if (model) return computeBooleanGeometries(model, booleanCacheRef.current);
+    booleanCacheRef.current.clear();
+    return new Map<string, THREE.BufferGeometry>();
+  }, [model?.parts]);
+  const booleanGeometriesRef = useRef(booleanGeometries);
+  booleanGeometriesRef.current = booleanGeometries;
+
+  // Only results that were not carried over into the new set are freed, and everything on unmount
+  useEffect(() => () => {
+    const kept = new Set(booleanGeometriesRef.current.values());
+    booleanGeometries.forEach(geometry => { if (!kept.has(geometry)) geometry.dispose(); });
+  }, [booleanGeometries]);
+  useEffect(() => () => booleanGeometriesRef.current.forEach(geometry => geometry.dispose()), []);
+
+  // View-only sizing: the data keeps its real dimensions, the camera & grid adapt to it
+  const units = model?.units ?? DEFAULT_UNITS;
+  const hiddenIds = useMemo(() => (model ? getInheritedIds(model.parts, 'hidden') : new Set<string>()), [model?.parts]);
+  const lockedIds = useMemo(() => (model ? getInheritedIds(model.parts, 'locked') : new Set<string>()), [model?.parts]);
+
+  // Framing follows what is on screen, so hidden parts don't push the camera back.
+  // Tools are dropped before hiding, since a tool whose target is hidden would otherwise count as a solid
+  const visibleBounds = useMemo(
+    () => (model ? estimateModelBounds({ ...model, parts: model.parts.filter(p => !hiddenIds.has(p.id) && !isBooleanTool(p, model.parts)) }) : new THREE.Box3()),
+    [model?.parts, hiddenIds]
+  );
+  const modelSize = useMemo(() => {
+    const size = visibleBounds.getSize(new THREE.Vector3());
+    return Math.max(size.x, size.y, size.z) || EMPTY_SCENE_SIZE;
+  }, [visibleBounds]);
+  const gridCellSize = getGridCellSize(modelSize);
+
+  // Display colors and exploded positions only change how parts are drawn, never the model
+  const displayColors = useMemo(
+    () => (model && colorBy !== 'original' ? getDisplayColors(model.parts, colorBy) : null),
+    [model?.parts, colorBy]
+  );
+  const isExploded = explode > 0;
+  const explodeOffsets = useMemo(
+    () => (model && isExploded ? getExplodeOffsets({ ...model, parts: model.parts.filter(p => !hiddenIds.has(p.id)) }) : new Map<string, THREE.Vector3>()),
+    [model?.parts, hiddenIds, isExploded]
+  );
+
+  const isSelectable = !compact && !!onSelect;
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const hoveredPart = hoveredId ? model?.parts.find(p => p.id === hoveredId) : undefined;
+
+  // Parts can disappear while hovered (new model, refinement), so never keep a stale hover
+  useEffect(() => setHoveredId(null), [model]);
+
+  // Picks hold the geometry they were made on, so they are dropped when the model changes.
+  // A finished measurement stays: its points are fixed in model space
+  useEffect(() => setMeasurePicks([]), [model]);
+
+  // The gizmo edits the most recently selected part. Parts are not where they are drawn in an exploded view, so editing waits until it is assembled
+  const primaryId = selectedIds[selectedIds.length - 1];
+  const editablePart = !compact && onPartChange && !isExploded && !measureKind && !isPickingSectionFace && primaryId && !lockedIds.has(primaryId) && !hiddenIds.has(primaryId)
+    ? model?.parts.find(p => p.id === primaryId)
+    : undefined;
+
+  const updateTransform = (update: Partial<TransformSettings>) => setTransform(prev => ({ ...prev, ...update }));
 
+  // Align, distribute and place on ground work on every selected part that can be edited
+  const arrangeIds = onChangeParts && !isExploded ? selectedIds.filter(id => !lockedIds.has(id) && !hiddenIds.has(id)) : [];
+  const axisName = 'XYZ'[arrangeAxis];
+
+  const arrange = (changes: PartChange[], label: string) => {
+    if (changes.length > 0) onChangeParts?.(changes, label);
+  };
+
+  // W / E / R switch the gizmo like in most 3D tools
   useEffect(() => {
-    if (!model) return;
-    if (visiblePartsCount < model.parts.length) {
-      const timer = setTimeout(() => {
-        setVisiblePartsCount(prev => prev + 1);
-      }, buildingSpeed);
-      return () => clearTimeout(timer);
+    if (!editablePart) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.ctrlKey || e.metaKey || e.altKey) return;
+      const shortcut = TRANSFORM_MODES.find(m => m.key === e.key.toLowerCase());
+      if (shortcut) updateTransform({ mode: shortcut.mode });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [!!editablePart]);
+
+  const handlePick = (partId: string, isAdditive: boolean) => onSelect?.([partId], isAdditive ? 'toggle' : 'replace');
+
+  const handleHover = (partId: string, isHovered: boolean) =>
+    setHoveredId(prev => (isHovered ? partId : prev === partId ? null : prev));
+
+  // --- Section View ---
+  // Planes are saved with the model, so cuts come back with the file and undo like any other edit.
+  // A plane being dragged only moves here; the model gets its offset once the drag ends
+  const sections = useMemo(() => (model?.sections ?? []).map(section =>
+    (section.id === draggedSection?.id ? { ...section, offset: draggedSection.offset } : section)
+  ), [model?.sections, draggedSection]);
+  const sectionCenter = useMemo(() => (visibleBounds.isEmpty() ? new THREE.Vector3() : visibleBounds.getCenter(new THREE.Vector3())), [visibleBounds]);
+  // One live world-space plane per enabled section; materials keep pointing at the same objects while offsets change
+  const activeSections = useMemo(() => sections.filter(section => section.enabled), [sections]);
+  const activeSectionKey = activeSections.map(section => section.id).join(',');
+  const clippingPlanes = useMemo(() => activeSections.map(() => new THREE.Plane()), [activeSectionKey]);
+  const sectionStencils = useMemo(() => clippingPlanes.map(createStencilMaterials), [clippingPlanes]);
+  const capClippingPlanes = useMemo(() => clippingPlanes.map(plane => clippingPlanes.filter(other => other !== plane)), [clippingPlanes]);
+  useEffect(() => () => sectionStencils.forEach(materials => materials.forEach(material => material.dispose())), [sectionStencils]);
+  const hatchTexture = useMemo(() => createHatchTexture(capColor, hatchColor), [capColor, hatchColor]);
+  useEffect(() => () => hatchTexture.dispose(), [hatchTexture]);
+
+  // Repeated moves of one plane (slider or handle drags) collapse into one undo step
+  const updateSection = (id: string, update: Partial<SectionPlane>, label: string, coalesceKey?: string) =>
+    onChangeSections?.(sections.map(section => (section.id === id ? { ...section, ...update } : section)), label, coalesceKey);
+  const moveSection = (section: SectionPlane, offset: number) => setDraggedSection({ id: section.id, offset });
+  const commitSectionMove = () => {
+    const section = sections.find(other => other.id === draggedSection?.id);
+    const saved = model?.sections?.find(other => other.id === section?.id);
+    if (section && saved && saved.offset !== section.offset) updateSection(section.id, { offset: section.offset }, `Move ${section.label} section`, `section:${section.id}:offset`);
+    setDraggedSection(null);
+  };
+
+  const addSection = (create: (id: string) => SectionPlane) => {
+    const section = create(createUniqueId('section_1', new Set(sections.map(other => other.id))));
+    onChangeSections?.([...sections, section], `Add ${section.label} section`);
+  };
+
+  const toggleSectionPanel = () => {
+    setShowSectionPanel(!showSectionPanel);
+    setIsPickingSectionFace(false);
+    if (!showSectionPanel) {
+      selectMeasureTool(null);
+      setShowViewsPanel(false);
+      setShowDisplayPanel(false);
     }
-  }, [visiblePartsCount, model, buildingSpeed]);
+  };
+
+  // A rendered snapshot of the current view, cut faces included
+  const handleSnapshot = () => {
+    const dataUrl = snapshotRef.current?.();
+    if (dataUrl) saveSnapshot(dataUrl, model?.name, sections.some(section => section.enabled) ? 'section' : 'view');
+  };
+
+  // Children render inside their parent's frame; streamed parts pop in as they mount.
+  // Everything inside a selected group is highlighted with it. Hidden parts are not mounted at all,
+  // which also keeps them out of picking
+  const renderNode = (node: PartNode, isParentSelected = false): React.ReactNode => {
+    if (hiddenIds.has(node.part.id)) return null;
+    const isSelected = isParentSelected || selectedSet.has(node.part.id);
+    const isPickable = isSelectable && !measureKind && !isPickingSectionFace && !lockedIds.has(node.part.id);
+    return (
+      <ShapeRenderer
+          key={`${node.part.id}-${node.index}`}
+          part={node.part}
+          isVisible
+          booleanGeometry={booleanGeometries.get(node.part.id)}
+          isBooleanTool={!!model && isBooleanTool(node.part, model.parts)}
+          isSelected={isSelected}
+          onPick={isPickable ? handlePick : undefined}
+          onHover={isPickable ? handleHover : undefined}
+          clippingPlanes={clippingPlanes.length > 0 ? clippingPlanes : undefined}
+          sectionStencils={sectionStencils.length > 0 ? sectionStencils : undefined}
+          displayMode={displayMode}
+          displayColor={displayColors?.get(node.part.id)}
+          explodeOffset={explodeOffsets.get(node.part.id)?.clone().multiplyScalar(explode)}
+      >
+          {node.children.map(child => renderNode(child, isSelected))}
+      </ShapeRenderer>
+    );
+  };
+
+  // --- Measure ---
+  const measureTool = model ? MEASURE_TOOLS.find(tool => tool.kind === measureKind) : undefined;
+  const dimensions = model?.dimensions ?? [];
+
+  const selectMeasureTool = (kind: DimensionKind | null) => {
+    setMeasureKind(kind);
+    setMeasurePicks([]);
+    setMeasureError(null);
+    if (kind) {
+      setIsBoxSelecting(false);
+      setShowSectionPanel(false);
+      setIsPickingSectionFace(false);
+      setShowViewsPanel(false);
+      setShowDisplayPanel(false);
+    } else {
+      setMeasurement(null);
+    }
+  };
+
+  const handleMeasurePick = (pick: MeasurePick) => {
+    if (!model || !measureTool) return;
+    const picks = [...measurePicks, pick];
+    if (picks.length < measureTool.picks) {
+      setMeasurePicks(picks);
+      return;
+    }
+    const dimension = createDimension(model, measureTool.kind, picks);
+    setMeasurePicks([]);
+    setMeasurement(dimension);
+    setMeasureError(dimension ? null : measureTool.kind === 'clearance' ? 'Pick two different parts' : 'The points lie on one line, pick them further apart');
+  };
+
+  const handleSurfacePick = (pick: MeasurePick) => {
+    if (isPickingSectionFace) {
+      addSection(id => createFaceSection(id, pick.point, pick.normal));
+      setIsPickingSectionFace(false);
+    } else {
+      handleMeasurePick(pick);
+    }
+  };
+
+  const keepMeasurement = () => {
+    if (!measurement || !onChangeDimensions) return;
+    const id = createUniqueId(measurement.id, new Set(dimensions.map(d => d.id)));
+    onChangeDimensions([...dimensions, { ...measurement, id }], `Add ${measureTool?.label.toLowerCase() ?? 'dimension'} dimension`);
+    setMeasurement(null);
+  };
+
+  // --- Views & Bookmarks ---
+  const bookmarks = model?.bookmarks ?? [];
+  const activeBookmark = bookmarks.find(bookmark => bookmark.id === activeBookmarkId);
+
+  useEffect(() => setActiveBookmarkId(null), [viewState]);
+
+  const toggleViewsPanel = () => {
+    setShowViewsPanel(!showViewsPanel);
+    if (!showViewsPanel) {
+      selectMeasureTool(null);
+      setShowSectionPanel(false);
+      setIsPickingSectionFace(false);
+      setShowDisplayPanel(false);
+    }
+  };
+
+  const toggleDisplayPanel = () => {
+    setShowDisplayPanel(!showDisplayPanel);
+    if (!showDisplayPanel) {
+      selectMeasureTool(null);
+      setShowSectionPanel(false);
+      setIsPickingSectionFace(false);
+      setShowViewsPanel(false);
+    }
+  };
+
+  const goToBookmark = (bookmark: CameraBookmark) => {
+    cameraProbeRef.current?.flyTo(bookmark);
+    setActiveBookmarkId(bookmark.id);
+  };
+
+  const saveBookmark = (name: string) => {
+    const view = cameraProbeRef.current?.capture();
+    if (!view || !onChangeBookmarks) return;
+    const id = createUniqueId('view_1', new Set(bookmarks.map(bookmark => bookmark.id)));
+    const bookmark: CameraBookmark = {
+      id,
+      name,
+      projection: view.projection,
+      position: view.position.map(roundValue) as [number, number, number],
+      target: view.target.map(roundValue) as [number, number, number],
+      viewHeight: roundValue(view.viewHeight),
+    };
+    onChangeBookmarks([...bookmarks, bookmark], `Save view "${name}"`);
+    setActiveBookmarkId(id);
+  };
+
+  // --- Primitive Palette ---
+  const canAddParts = !compact && !!onAddParts;
+
+  // New parts are two grid cells across and rest on the ground at the given point
+  const handleInsert = (type: PrimitiveType, client?: { x: number, y: number }) => {
+    const point = groundProbeRef.current?.(client);
+    if (!point || !onAddParts) return;
+    const part = createPart(type, gridCellSize * 2, new Set(model?.parts.map(p => p.id)));
+    const bottom = type === ShapeType.GROUP ? 0 : getPartBounds(part, new THREE.Matrix4()).min.y;
+    part.position = [point.x, point.y - bottom, point.z].map(roundValue) as [number, number, number];
+    onAddParts([part]);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canAddParts || !e.dataTransfer.types.includes(PRIMITIVE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const type = e.dataTransfer.getData(PRIMITIVE_DRAG_TYPE);
+    if (!canAddParts || !type) return;
+    e.preventDefault();
+    handleInsert(type, { x: e.clientX, y: e.clientY });
+  };
+
+  // --- Box Select ---
+  const getLocalPoint = (e: React.PointerEvent) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+  };
+
+  const handleBoxStart = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getLocalPoint(e);
+    setDragRect({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const handleBoxMove = (e: React.PointerEvent) => {
+    if (!dragRect) return;
+    const { x, y } = getLocalPoint(e);
+    setDragRect({ ...dragRect, x1: x, y1: y });
+  };
+
+  const handleBoxEnd = (e: React.PointerEvent) => {
+    if (!dragRect) return;
+    const rect = {
+      left: Math.min(dragRect.x0, dragRect.x1),
+      top: Math.min(dragRect.y0, dragRect.y1),
+      right: Math.max(dragRect.x0, dragRect.x1),
+      bottom: Math.max(dragRect.y0, dragRect.y1),
+    };
+    setDragRect(null);
+    const isAdditive = e.shiftKey || e.ctrlKey || e.metaKey;
+    // A plain click on the overlay behaves like clicking empty space
+    const partIds = (rect.right - rect.left > 2 || rect.bottom - rect.top > 2 ? probeRef.current?.(rect) ?? [] : [])
+      .filter(id => !lockedIds.has(id));
+    if (partIds.length > 0 || !isAdditive) onSelect?.(partIds, isAdditive ? 'add' : 'replace');
+  };
+
+  // The tooltip follows the pointer without re-rendering the scene
+  const handlePointerMove = (e: React.PointerEvent) => {
+    pointerRef.current = getLocalPoint(e);
+    if (tooltipRef.current) {
+      tooltipRef.current.style.transform = `translate(${pointerRef.current.x + 14}px, ${pointerRef.current.y + 14}px)`;
+    }
+  };
 
   return (
-    <div className="w-full h-full relative bg-cad-900 overflow-hidden group">
+    <div
+      ref={containerRef}
+      className="w-full h-full relative bg-cad-900 overflow-hidden group"
+      style={{ cursor: hoveredPart ? 'pointer' : undefined }}
+      onPointerMove={isSelectable ? handlePointerMove : undefined}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       {/* Grid overlay lines for 'blueprint' feel */}
       <div className="absolute inset-0 pointer-events-none z-0 opacity-10" 
            style={{ backgroundImage: 'linear-gradient(#334155 1px, transparent 1px), linear-gradient(90deg, #334155 1px, transparent 1px)', backgroundSize: '40px 40px' }}>
       </div>
 
-      <Canvas shadows camera={{ position: [10, 10, 10], fov: 45 }}>
+      <Canvas
+        shadows
+        gl={{ stencil: true }}
+        onCreated={({ gl }) => { gl.localClippingEnabled = true; }}
+        onPointerMissed={isSelectable ? (e) => { if (!e.shiftKey && !e.ctrlKey && !e.metaKey) onSelect?.([], 'replace'); } : undefined}
+      >
         <color attach="background" args={['#0f172a']} />
         
         <ambientLight intensity={0.7} />
@@ -112,118 +989,547 @@ const Viewer3D: React.FC<Viewer3DProps> = ({ model, buildingSpeed = 100, viewSta
         <directionalLight position={[0, -10, 0]} intensity={0.3} color="#475569" />
 
         <Suspense fallback={null}>
-          <Bounds fit clip observe margin={1.2}>
-            <Center top>
-               <group>
-                  {model && model.parts.map((part, index) => (
-                      <ShapeRenderer 
-                          key={`${part.id}-${index}`} 
-                          part={part} 
-                          isVisible={index < visiblePartsCount} 
-                      />
-                  ))}
-                  {/* Fallback invisible box to ensure Grid is centered even when empty */}
-                  {!model && <mesh visible={false}><boxGeometry /></mesh>}
-               </group>
-            </Center>
-          </Bounds>
+          <Center top onCentered={handleCentered}>
+             <group ref={modelGroupRef}>
+                {partTree.map(node => renderNode(node))}
+                {showFindings && findings.map((finding, idx) => (
+                   <FindingMarker key={`${finding.kind}-${idx}`} finding={finding} minSize={modelSize * 0.005} />
+                ))}
+                {showDimensions && dimensions.map(dimension => (
+                   <DimensionMarker
+                      key={dimension.id}
+                      dimension={dimension}
+                      units={units}
+                      onRemove={onChangeDimensions ? () => onChangeDimensions(dimensions.filter(d => d.id !== dimension.id), 'Remove dimension') : undefined}
+                   />
+                ))}
+                {measurement && <DimensionMarker dimension={measurement} units={units} isPending />}
+                {measurePicks.map((pick, idx) => (
+                   <Html key={idx} position={pick.point} center style={{ pointerEvents: 'none' }}>
+                      <div className="w-2 h-2 rounded-full bg-cad-accent ring-2 ring-cad-900" />
+                   </Html>
+                ))}
+                {/* Fallback invisible box to ensure Grid is centered even when empty */}
+                {!model && <mesh visible={false}><boxGeometry /></mesh>}
+             </group>
+          </Center>
 
           <Grid 
-            position={[0, -0.01, 0]} 
-            args={[60, 60]} 
-            cellSize={1} 
+            position={[modelOrigin[0], modelOrigin[1] - 0.01 * gridCellSize, modelOrigin[2]]} 
+            args={[60 * gridCellSize, 60 * gridCellSize]} 
+            cellSize={gridCellSize} 
             cellThickness={0.8} 
             cellColor="#1e293b" 
-            sectionSize={5} 
+            sectionSize={5 * gridCellSize} 
             sectionThickness={1.5} 
             sectionColor="#334155" 
-            fadeDistance={40} 
+            fadeDistance={modelSize * 5} 
             infiniteGrid 
           />
           
           <Environment preset="city" />
         </Suspense>
 
-        <OrbitControls makeDefault minDistance={1} maxDistance={200} dampingFactor={0.2} />
-        <CameraController viewState={viewState} />
+        {projection === 'orthographic'
+          ? <OrthographicCamera makeDefault near={modelSize / 100} far={modelSize * 100} />
+          : <PerspectiveCamera makeDefault fov={CAMERA_FOV} near={modelSize / 100} far={modelSize * 100} />}
+        <OrbitControls makeDefault minDistance={modelSize * 0.05} maxDistance={modelSize * 25} dampingFactor={0.2} />
+        <CameraController
+          viewState={viewState}
+          bounds={visibleBounds}
+          modelSize={modelSize}
+          modelRef={modelGroupRef}
+          probeRef={compact ? undefined : cameraProbeRef}
+          onProjectionChange={compact ? undefined : setProjection}
+        />
+        {cameraSync && <CameraSyncController sync={cameraSync} modelSize={modelSize} />}
+        {isSelectable && <BoxSelectProbe probeRef={probeRef} />}
+        {activeSections.length > 0 && (<>
+          <SectionPlaneSync sections={activeSections} planes={clippingPlanes} modelRef={modelGroupRef} />
+          {showSectionPanel && onChangeSections && activeSections.map(section => (
+            <SectionHandle
+              key={section.id}
+              section={section}
+              center={sectionCenter}
+              size={modelSize * 0.15}
+              modelRef={modelGroupRef}
+              onMove={offset => moveSection(section, offset)}
+              onRelease={commitSectionMove}
+            />
+          ))}
+          {clippingPlanes.map((plane, i) => (
+            <SectionCap
+              key={activeSections[i].id}
+              plane={plane}
+              otherPlanes={capClippingPlanes[i]}
+              index={i}
+              size={modelSize * 4}
+              texture={hatchTexture}
+              hatchSpacing={modelSize / 40}
+            />
+          ))}
+        </>)}
+        {!compact && <SnapshotProbe probeRef={snapshotRef} />}
+        {(measureTool || isPickingSectionFace) && <SurfaceProbe modelRef={modelGroupRef} cornerSnap={modelSize * 0.01} clippingPlanes={clippingPlanes} onPick={handleSurfacePick} />}
+        {canAddParts && <GroundProbe probeRef={groundProbeRef} modelRef={modelGroupRef} />}
+        {editablePart && onPartChange && (
+          <PartGizmo model={model!} part={editablePart} settings={transform} gridCellSize={gridCellSize} booleanGeometries={booleanGeometries} onCommit={onPartChange} />
+        )}
 
-        <GizmoHelper alignment="bottom-right" margin={[80, 80]}>
-          <GizmoViewport axisColors={['#ef4444', '#22c55e', '#3b82f6']} labelColor="white" />
-        </GizmoHelper>
+        {!compact && (
+          <GizmoHelper alignment="bottom-right" margin={[80, 80]}>
+            <GizmoViewport axisColors={['#ef4444', '#22c55e', '#3b82f6']} labelColor="white" />
+          </GizmoHelper>
+        )}
       </Canvas>
 
-      {/* Target Reticle (The "Show model here" dashed box) - Fades out when model exists */}
-      {!model && (
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-48 border-2 border-dashed border-cad-accent/30 rounded-lg flex items-center justify-center pointer-events-none">
-           <div className="text-cad-accent/50 text-xs font-mono">MODEL BUILD AREA</div>
-        </div>
-      )}
+      {!compact && (<>
 
-      {/* Viewport Info Overlay */}
-      <div className="absolute top-4 left-4 font-mono text-xs text-cad-accent pointer-events-none select-none z-10 leading-relaxed">
-        <div className="flex gap-4">
-            <span className="text-gray-500">VIEW:</span> <span className="font-bold">{viewState.mode}</span>
-        </div>
-        <div className="flex gap-4">
-            <span className="text-gray-500">GRID:</span> <span>1 UNIT</span>
-        </div>
-        <div className="flex gap-4">
-            <span className="text-gray-500">AXIS:</span> <span>Y-UP</span>
+        {/* Box Select Overlay - Captures drags instead of the orbit controls while active */}
+        {isSelectable && isBoxSelecting && (
+          <div
+            className="absolute inset-0 z-[5] cursor-crosshair"
+            onPointerDown={handleBoxStart}
+            onPointerMove={handleBoxMove}
+            onPointerUp={handleBoxEnd}
+          >
+            {dragRect && (
+              <div
+                className="absolute border border-cad-accent bg-cad-accent/10 pointer-events-none"
+                style={{
+                  left: Math.min(dragRect.x0, dragRect.x1),
+                  top: Math.min(dragRect.y0, dragRect.y1),
+                  width: Math.abs(dragRect.x1 - dragRect.x0),
+                  height: Math.abs(dragRect.y1 - dragRect.y0),
+                }}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Hover Tooltip */}
+        {hoveredPart && !dragRect && (
+          <div
+            ref={tooltipRef}
+            className="absolute top-0 left-0 pointer-events-none z-20 max-w-xs bg-cad-900/95 border border-cad-600 rounded px-2 py-1 font-mono text-[10px] shadow-xl"
+            style={{ transform: `translate(${pointerRef.current.x + 14}px, ${pointerRef.current.y + 14}px)` }}
+          >
+            <div className="text-white">{hoveredPart.description}</div>
+            <div className="text-gray-500">{hoveredPart.type.toUpperCase()} · {hoveredPart.id}</div>
+          </div>
+        )}
+
+        {/* Reference Image Overlay - Sits above the canvas but never captures the mouse */}
+        {showReference && activeReference && (
+          <div className="absolute inset-0 pointer-events-none z-0 flex items-center justify-center p-8">
+            <img
+              src={activeReference.dataUrl}
+              alt={activeReference.name}
+              className="max-w-full max-h-full object-contain"
+              style={{ opacity: referenceOpacity }}
+            />
+          </div>
+        )}
+
+        {/* Target Reticle (The "Show model here" dashed box) - Fades out when model exists */}
+        {!model && (
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-48 border-2 border-dashed border-cad-accent/30 rounded-lg flex items-center justify-center pointer-events-none">
+             <div className="text-cad-accent/50 text-xs font-mono">MODEL BUILD AREA</div>
+          </div>
+        )}
+
+        {/* Viewport Info Overlay */}
+        <div className="absolute top-4 left-4 font-mono text-xs text-cad-accent pointer-events-none select-none z-10 leading-relaxed">
+          <div className="flex gap-4">
+              <span className="text-gray-500">VIEW:</span> <span className="font-bold">{activeBookmark ? activeBookmark.name : viewState.mode}</span>
+          </div>
+          <div className="flex gap-4">
+              <span className="text-gray-500">PROJ:</span> <span>{projection === 'orthographic' ? 'ORTHO' : 'PERSP'}</span>
+          </div>
+          <div className="flex gap-4">
+              <span className="text-gray-500">GRID:</span> <span>{Number(gridCellSize.toPrecision(3))} {units}</span>
+          </div>
+          <div className="flex gap-4">
+              <span className="text-gray-500">UNITS:</span> <span>{units.toUpperCase()}</span>
+          </div>
+          <div className="flex gap-4">
+              <span className="text-gray-500">AXIS:</span> <span>Y-UP</span>
+          </div>
+          <div className="flex gap-4 mt-2 pt-2 border-t border-cad-600/50">
+              <span className="text-gray-500">PARTS:</span> 
+              <span className="text-white">
+                  {model ? model.parts.length : '-'}
+              </span>
+          </div>
+          {selectedIds.length > 0 && (
+            <div className="flex gap-4">
+                <span className="text-gray-500">SELECTED:</span>
+                <span className="text-white">{selectedIds.length}</span>
+            </div>
+          )}
+          {model && (
+            <div className="flex gap-4">
+                <span className="text-gray-500">CHECKS:</span>
+                <span className={findings.length > 0 ? 'text-yellow-400' : 'text-green-400'}>
+                    {findings.length > 0 ? `${findings.length} ISSUE${findings.length > 1 ? 'S' : ''}` : 'PLAUSIBLE'}
+                </span>
+            </div>
+          )}
+          {showFindings && findings.length > 0 && (
+            <div className="mt-1 flex flex-col gap-0.5 max-w-xs">
+              {findings.map((finding, idx) => (
+                <div key={idx} className="flex items-start gap-2 text-[10px]">
+                  <span className="w-2 h-2 mt-1 rounded-sm flex-shrink-0" style={{ backgroundColor: FINDING_COLORS[finding.kind] }} />
+                  <span className="text-gray-300">{finding.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
-        <div className="flex gap-4 mt-2 pt-2 border-t border-cad-600/50">
-            <span className="text-gray-500">PARTS:</span> 
-            <span className="text-white">
-                {model ? `${visiblePartsCount} / ${model.parts.length}` : '- / -'}
-            </span>
+
+        {/* Reference Overlay Controls */}
+        {showReference && activeReference && (
+          <div className="absolute bottom-6 left-4 flex items-center gap-2 bg-cad-900/90 border border-cad-600 rounded px-3 py-2 font-mono text-[10px] text-cad-accent z-10 shadow-xl">
+            <ImageIcon className="w-3 h-3" />
+            <span className="text-gray-500">REF</span>
+            {referenceImages.length > 1 && (
+              <>
+                <button onClick={() => setReferenceIndex((referenceIndex + referenceImages.length - 1) % referenceImages.length)} className="hover:text-white">
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                <span className="text-white">{referenceIndex + 1}/{referenceImages.length}</span>
+                <button onClick={() => setReferenceIndex((referenceIndex + 1) % referenceImages.length)} className="hover:text-white">
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+              </>
+            )}
+            <span className="text-gray-500 ml-2">OPACITY</span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={referenceOpacity}
+              onChange={(e) => setReferenceOpacity(parseFloat(e.target.value))}
+              className="w-20 accent-cyan-500"
+            />
+          </div>
+        )}
+
+        {/* Quick View Toolbar */}
+        <div className="absolute top-4 right-4 flex flex-col gap-3 z-50">
+           <ViewButton 
+              onClick={() => onViewChange('ISO')} 
+              isActive={viewState.mode === 'ISO'} 
+              title="Isometric View"
+           >
+              <Box className="w-5 h-5" strokeWidth={1.5} />
+           </ViewButton>
+
+           <ViewButton 
+              onClick={() => onViewChange('TOP')} 
+              isActive={viewState.mode === 'TOP'} 
+              title="Top View"
+           >
+              <ArrowUp className="w-5 h-5" strokeWidth={1.5} />
+           </ViewButton>
+
+           <ViewButton 
+              onClick={() => onViewChange('FRONT')} 
+              isActive={viewState.mode === 'FRONT'} 
+              title="Front View"
+           >
+               <span className="font-bold text-sm font-sans">F</span>
+           </ViewButton>
+
+           <ViewButton 
+              onClick={() => onViewChange('SIDE')} 
+              isActive={viewState.mode === 'SIDE'} 
+              title="Side View"
+           >
+              <ArrowRight className="w-5 h-5" strokeWidth={1.5} />
+           </ViewButton>
+
+           <ViewButton 
+              onClick={() => setProjection(projection === 'orthographic' ? 'perspective' : 'orthographic')} 
+              isActive={projection === 'orthographic'} 
+              title={projection === 'orthographic' ? 'Switch to Perspective' : 'Switch to Orthographic'}
+           >
+              <span className="font-bold text-[9px] font-sans">{projection === 'orthographic' ? 'ORTHO' : 'PERSP'}</span>
+           </ViewButton>
+
+           <ViewButton 
+              onClick={toggleViewsPanel} 
+              isActive={showViewsPanel} 
+              title="Views & Bookmarks"
+           >
+              <Bookmark className="w-5 h-5" strokeWidth={1.5} />
+           </ViewButton>
+
+           {model && (
+              <ViewButton 
+                 onClick={toggleDisplayPanel} 
+                 isActive={showDisplayPanel || isExploded} 
+                 title="Display Mode & Exploded View"
+              >
+                 <Palette className="w-5 h-5" strokeWidth={1.5} />
+              </ViewButton>
+           )}
+
+           {isSelectable && (
+              <ViewButton 
+                 onClick={() => { setIsBoxSelecting(!isBoxSelecting); setDragRect(null); }} 
+                 isActive={isBoxSelecting} 
+                 title="Box Select (Shift adds to the selection)"
+              >
+                 <BoxSelect className="w-5 h-5" strokeWidth={1.5} />
+              </ViewButton>
+           )}
+
+           {model && (
+              <ViewButton 
+                 onClick={() => selectMeasureTool(measureKind ? null : 'distance')} 
+                 isActive={!!measureKind} 
+                 title="Measure"
+              >
+                 <Ruler className="w-5 h-5" strokeWidth={1.5} />
+              </ViewButton>
+           )}
+
+           {model && (
+              <ViewButton 
+                 onClick={toggleSectionPanel} 
+                 isActive={showSectionPanel || activeSections.length > 0} 
+                 title="Section View"
+              >
+                 <SquareSplitHorizontal className="w-5 h-5" strokeWidth={1.5} />
+              </ViewButton>
+           )}
+
+           {findings.length > 0 && (
+              <ViewButton 
+                 onClick={() => setShowFindings(!showFindings)} 
+                 isActive={showFindings} 
+                 title="Highlight Plausibility Issues"
+              >
+                 <ShieldAlert className="w-5 h-5" strokeWidth={1.5} />
+              </ViewButton>
+           )}
+
+           {referenceImages.length > 0 && (
+              <ViewButton 
+                 onClick={() => setShowReference(!showReference)} 
+                 isActive={showReference} 
+                 title="Reference Image Overlay"
+              >
+                 <ImageIcon className="w-5 h-5" strokeWidth={1.5} />
+              </ViewButton>
+           )}
         </div>
-      </div>
 
-      {/* Quick View Toolbar */}
-      <div className="absolute top-4 right-4 flex flex-col gap-3 z-50">
-         <ViewButton 
-            onClick={() => onViewChange('ISO')} 
-            isActive={viewState.mode === 'ISO'} 
-            title="Isometric View"
-         >
-            <Box className="w-5 h-5" strokeWidth={1.5} />
-         </ViewButton>
-
-         <ViewButton 
-            onClick={() => onViewChange('TOP')} 
-            isActive={viewState.mode === 'TOP'} 
-            title="Top View"
-         >
-            <ArrowUp className="w-5 h-5" strokeWidth={1.5} />
-         </ViewButton>
-
-         <ViewButton 
-            onClick={() => onViewChange('FRONT')} 
-            isActive={viewState.mode === 'FRONT'} 
-            title="Front View"
-         >
-             <span className="font-bold text-sm font-sans">F</span>
-         </ViewButton>
-
-         <ViewButton 
-            onClick={() => onViewChange('SIDE')} 
-            isActive={viewState.mode === 'SIDE'} 
-            title="Side View"
-         >
-            <ArrowRight className="w-5 h-5" strokeWidth={1.5} />
-         </ViewButton>
-      </div>
+        {/* Display Panel */}
+        {model && showDisplayPanel && (
+          <DisplayPanel
+            displayMode={displayMode}
+            colorBy={colorBy}
+            explode={explode}
+            isEditingPaused={isExploded && !!(onPartChange || onChangeParts)}
+            onDisplayModeChange={setDisplayMode}
+            onColorByChange={setColorBy}
+            onExplodeChange={setExplode}
+          />
+        )}
+
+        {/* Views Panel */}
+        {showViewsPanel && (
+          <ViewsPanel
+            projection={projection}
+            viewMode={viewState.mode}
+            bookmarks={bookmarks}
+            activeBookmarkId={activeBookmark?.id ?? null}
+            onProjectionChange={setProjection}
+            onViewChange={onViewChange}
+            onGoToBookmark={goToBookmark}
+            onSaveBookmark={onChangeBookmarks ? saveBookmark : undefined}
+            onRemoveBookmark={onChangeBookmarks ? (bookmark) => onChangeBookmarks(bookmarks.filter(other => other.id !== bookmark.id), `Remove view "${bookmark.name}"`) : undefined}
+          />
+        )}
+
+        {/* Measure Panel */}
+        {measureTool && (
+          <MeasurePanel
+            tool={measureTool}
+            pickCount={measurePicks.length}
+            error={measureError}
+            dimensionCount={dimensions.length}
+            showDimensions={showDimensions}
+            onSelectTool={selectMeasureTool}
+            onToggleDimensions={() => setShowDimensions(!showDimensions)}
+            onKeep={measurement && onChangeDimensions ? keepMeasurement : undefined}
+            onClearDimensions={onChangeDimensions ? () => onChangeDimensions([], 'Clear dimensions') : undefined}
+          />
+        )}
 
-      {/* Navigation Controls Legend */}
-      <div className="absolute bottom-6 right-20 text-xs font-mono text-cad-accent border border-cad-600 bg-cad-900/90 p-3 rounded backdrop-blur-sm select-none z-10 shadow-xl opacity-80 hover:opacity-100 transition-opacity">
-        <div className="font-bold mb-2 text-white border-b border-cad-600 pb-1 flex items-center gap-2">
-            CONTROLS
+        {/* Section Panel */}
+        {model && showSectionPanel && (
+          <SectionPanel
+            sections={sections}
+            bounds={visibleBounds}
+            units={units}
+            isPickingFace={isPickingSectionFace}
+            capColor={capColor}
+            hatchColor={hatchColor}
+            isEditable={!!onChangeSections}
+            onSnapshot={handleSnapshot}
+            onAddAxis={(axis) => addSection(id => createAxisSection(id, axis, visibleBounds))}
+            onTogglePickFace={() => { selectMeasureTool(null); setShowSectionPanel(true); setIsPickingSectionFace(!isPickingSectionFace); }}
+            onUpdate={(section, update, label) => updateSection(section.id, update, label)}
+            onMove={moveSection}
+            onMoveEnd={commitSectionMove}
+            onRemove={(section) => onChangeSections?.(sections.filter(other => other.id !== section.id), `Remove ${section.label} section`)}
+            onCapColorChange={setCapColor}
+            onHatchColorChange={setHatchColor}
+          />
+        )}
+
+        {/* Primitive Palette */}
+        {canAddParts && <PrimitivePalette onInsert={(type) => handleInsert(type)} />}
+
+        {/* Transform & Selection Toolbars - Arranging works on any selection, editable part or not */}
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 z-10">
+          {model && arrangeIds.length > 0 && (
+            <div className="flex items-center gap-1 bg-cad-900/90 border border-cad-600 rounded px-2 py-1 font-mono text-[10px] text-cad-accent shadow-xl">
+              <span className="text-gray-400 mr-1">{arrangeIds.length > 1 ? `${arrangeIds.length} PARTS` : 'ARRANGE'}</span>
+              <button
+                onClick={() => arrange(placeOnGround(model, arrangeIds), arrangeIds.length > 1 ? `Place ${arrangeIds.length} parts on ground` : 'Place on ground')}
+                title="Place on ground (lowest point at Y = 0)"
+                className="p-1 rounded hover:bg-cad-700 hover:text-white"
+              >
+                <ArrowDownToLine className="w-4 h-4" />
+              </button>
+              {arrangeIds.length > 1 && (<>
+                <button
+                  onClick={() => setArrangeAxis(axis => ((axis + 1) % 3) as Axis)}
+                  title="Axis to align and distribute along"
+                  className="w-5 py-1 rounded font-bold hover:bg-cad-700 hover:text-white"
+                >
+                  {axisName}
+                </button>
+                {ALIGN_ANCHORS.map(({ anchor, label, Icon }) => (
+                  <button
+                    key={anchor}
+                    onClick={() => arrange(alignParts(model, arrangeIds, arrangeAxis, anchor), `${label} ${axisName}`)}
+                    title={`${label} on ${axisName}`}
+                    className="p-1 rounded hover:bg-cad-700 hover:text-white"
+                  >
+                    <Icon className="w-4 h-4" />
+                  </button>
+                ))}
+                <button
+                  onClick={() => arrange(distributeParts(model, arrangeIds, arrangeAxis), `Distribute ${axisName}`)}
+                  disabled={arrangeIds.length < 3}
+                  title={`Distribute with equal spacing on ${axisName} (3 or more parts)`}
+                  className="p-1 rounded hover:bg-cad-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <AlignHorizontalSpaceBetween className="w-4 h-4" />
+                </button>
+              </>)}
+            </div>
+          )}
+          {editablePart && (
+            <div className="flex items-center gap-1 bg-cad-900/90 border border-cad-600 rounded px-2 py-1 font-mono text-[10px] text-cad-accent shadow-xl">
+              <span className="text-gray-400 mr-1 max-w-[10rem] truncate" title={editablePart.description}>{editablePart.description}</span>
+              {TRANSFORM_MODES.map(({ mode, key, label, Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => updateTransform({ mode })}
+                  title={`${label} (${key.toUpperCase()})`}
+                  className={`p-1 rounded transition-colors ${transform.mode === mode ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+              <span className="w-px h-4 bg-cad-600 mx-1" />
+              <button
+                onClick={() => updateTransform({ space: transform.space === 'world' ? 'local' : 'world' })}
+                title="Toggle world / local axes"
+                className="flex items-center gap-1 px-1.5 py-1 rounded hover:bg-cad-700 hover:text-white"
+              >
+                {transform.space === 'world' ? <Globe className="w-3 h-3" /> : <Box className="w-3 h-3" />}
+                {transform.space.toUpperCase()}
+              </button>
+              <span className="w-px h-4 bg-cad-600 mx-1" />
+              <button
+                onClick={() => updateTransform({ snap: !transform.snap })}
+                title="Snap to the grid / fixed steps"
+                className={`p-1 rounded transition-colors ${transform.snap ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+              >
+                <Magnet className="w-4 h-4" />
+              </button>
+              {transform.mode === 'translate' && (
+                <button
+                  onClick={() => updateTransform({ snapToParts: !transform.snapToParts })}
+                  title="Snap to faces, edges and centers of other parts"
+                  className={`p-1 rounded transition-colors ${transform.snapToParts ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+                >
+                  <Crosshair className="w-4 h-4" />
+                </button>
+              )}
+              {transform.snap && (
+                <label className="flex items-center gap-1 text-gray-400">
+                  STEP
+                  {transform.mode === 'translate' && (
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={transform.translateStep ?? gridCellSize}
+                      onChange={(e) => updateTransform({ translateStep: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : null })}
+                      className="w-16 bg-cad-800 border border-cad-600 rounded px-1 text-white focus:outline-none focus:border-cad-accent"
+                    />
+                  )}
+                  {transform.mode === 'rotate' && (
+                    <input
+                      type="number"
+                      min={1}
+                      max={180}
+                      value={transform.rotateStep}
+                      onChange={(e) => updateTransform({ rotateStep: Math.min(180, Math.max(1, parseFloat(e.target.value) || 15)) })}
+                      className="w-12 bg-cad-800 border border-cad-600 rounded px-1 text-white focus:outline-none focus:border-cad-accent"
+                    />
+                  )}
+                  {transform.mode === 'scale' && (
+                    <input
+                      type="number"
+                      min={0.01}
+                      step={0.05}
+                      value={transform.scaleStep}
+                      onChange={(e) => updateTransform({ scaleStep: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : 0.1 })}
+                      className="w-12 bg-cad-800 border border-cad-600 rounded px-1 text-white focus:outline-none focus:border-cad-accent"
+                    />
+                  )}
+                  <span>{transform.mode === 'translate' ? units : transform.mode === 'rotate' ? '°' : '×'}</span>
+                </label>
+              )}
+            </div>
+          )}
         </div>
-        <div className="grid grid-cols-[20px_1fr] gap-y-2 items-center">
-            <MousePointer2 className="w-3 h-3 text-white" /> <span>L-CLICK + DRAG <span className="text-gray-500">ROTATE</span></span>
-            <Move3d className="w-3 h-3 text-white" /> <span>R-CLICK + DRAG <span className="text-gray-500">PAN</span></span>
-            <Search className="w-3 h-3 text-white" /> <span>SCROLL <span className="text-gray-500">ZOOM</span></span>
+
+        {/* Navigation Controls Legend */}
+        <div className="absolute bottom-6 right-20 text-xs font-mono text-cad-accent border border-cad-600 bg-cad-900/90 p-3 rounded backdrop-blur-sm select-none z-10 shadow-xl opacity-80 hover:opacity-100 transition-opacity">
+          <div className="font-bold mb-2 text-white border-b border-cad-600 pb-1 flex items-center gap-2">
+              CONTROLS
+          </div>
+          <div className="grid grid-cols-[20px_1fr] gap-y-2 items-center">
+              <MousePointer2 className="w-3 h-3 text-white" /> <span>L-CLICK + DRAG <span className="text-gray-500">ROTATE</span></span>
+              <Move3d className="w-3 h-3 text-white" /> <span>R-CLICK + DRAG <span className="text-gray-500">PAN</span></span>
+              <Search className="w-3 h-3 text-white" /> <span>SCROLL <span className="text-gray-500">ZOOM</span></span>
+              {isSelectable && (<>
+                <MousePointer2 className="w-3 h-3 text-white" /> <span>CLICK <span className="text-gray-500">SELECT</span> · SHIFT <span className="text-gray-500">MULTI</span></span>
+              </>)}
+          </div>
         </div>
-      </div>
+      </>)}
     </div>
   );
 };
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CameraBookmark, CameraProjection } from '../types';
+import { STANDARD_VIEWS } from '../services/cameraService';
+import { Bookmark, Pin, X } from 'lucide-react';
+
+interface ViewsPanelProps {
+  projection: CameraProjection;
+  viewMode: string; // Standard view the camera was last sent to
+  bookmarks: CameraBookmark[];
+  activeBookmarkId: string | null; // Shown as the view instead of viewMode until another one is picked
+  onProjectionChange: (projection: CameraProjection) => void;
+  onViewChange: (mode: string) => void;
+  onGoToBookmark: (bookmark: CameraBookmark) => void;
+  onSaveBookmark?: (name: string) => void; // Saving and removing need an editable model
+  onRemoveBookmark?: (bookmark: CameraBookmark) => void;
+}
+
+// Every standard view, plus bookmarks saved with the model
+const ViewsPanel: React.FC<ViewsPanelProps> = ({ projection, viewMode, bookmarks, activeBookmarkId, onProjectionChange, onViewChange, onGoToBookmark, onSaveBookmark, onRemoveBookmark }) => {
+  const [bookmarkName, setBookmarkName] = useState('');
+
+  const saveBookmark = () => {
+    if (!onSaveBookmark) return;
+    onSaveBookmark(bookmarkName.trim() || `View ${bookmarks.length + 1}`);
+    setBookmarkName('');
+  };
+
+  return (
+    <div className="absolute top-4 right-20 w-56 flex flex-col gap-2 bg-cad-900/90 border border-cad-600 rounded p-2 font-mono text-[10px] text-cad-accent z-10 shadow-xl">
+      <div className="flex items-center gap-2 text-white font-bold">
+        <Bookmark className="w-3 h-3" /> VIEWS
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="text-gray-500 mr-1">PROJ</span>
+        {(['perspective', 'orthographic'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => onProjectionChange(option)}
+            className={`flex-1 py-1 rounded transition-colors ${option === projection ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+          >
+            {option === 'orthographic' ? 'ORTHO' : 'PERSP'}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-4 gap-0.5">
+        {STANDARD_VIEWS.map(view => (
+          <button
+            key={view.id}
+            onClick={() => onViewChange(view.id)}
+            className={`py-1 rounded transition-colors ${view.id === viewMode && !activeBookmarkId ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+            title={view.label}
+          >
+            {view.short}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-col gap-0.5 pt-2 border-t border-cad-600/50">
+        <span className="text-gray-500">BOOKMARKS</span>
+        {bookmarks.length === 0 && <span className="text-gray-500">No saved views</span>}
+        {bookmarks.map(bookmark => (
+          <div key={bookmark.id} className="flex items-center gap-1">
+            <button
+              onClick={() => onGoToBookmark(bookmark)}
+              className={`flex-1 min-w-0 truncate text-left px-1.5 py-1 rounded transition-colors ${bookmark.id === activeBookmarkId ? 'bg-cad-accent text-cad-900' : 'hover:bg-cad-700 hover:text-white'}`}
+              title={`Go to ${bookmark.name} (${bookmark.projection})`}
+            >
+              {bookmark.name}
+            </button>
+            <span className="text-gray-500">{bookmark.projection === 'orthographic' ? 'O' : 'P'}</span>
+            {onRemoveBookmark && (
+              <button
+                onClick={() => onRemoveBookmark(bookmark)}
+                className="p-0.5 rounded hover:bg-cad-700 hover:text-red-400"
+                title="Remove bookmark"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {onSaveBookmark && (
+          <div className="flex items-center gap-1 mt-1">
+            <input
+              type="text"
+              value={bookmarkName}
+              onChange={(e) => setBookmarkName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') saveBookmark(); }}
+              placeholder={`View ${bookmarks.length + 1}`}
+              className="flex-1 min-w-0 bg-cad-800 border border-cad-600 rounded px-1.5 py-1 text-white placeholder-gray-600 focus:outline-none focus:border-cad-accent"
+            />
+            <button onClick={saveBookmark} className="p-1 rounded border border-cad-accent hover:bg-cad-accent hover:text-cad-900" title="Save the current view">
+              <Pin className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ViewsPanel;
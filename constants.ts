@@ -1,4 +1,4 @@
-import { ShapeType } from "./types";
+import { GeneratorSettings, LengthUnit, PromptTemplate, ShapeType, StylePreset } from "./types";
 
 export const DEFAULT_CAMERA_POSITION: [number, number, number] = [10, 10, 10];
 
@@ -9,12 +9,123 @@ export const SHAPE_LABELS: Record<ShapeType, string> = {
   [ShapeType.CONE]: "Cone",
   [ShapeType.TORUS]: "Torus",
   [ShapeType.ICOSAHEDRON]: "Icosahedron",
+  [ShapeType.EXTRUDE]: "Extrusion",
+  [ShapeType.REVOLVE]: "Revolve",
+  [ShapeType.GROUP]: "Group",
 };
 
+export const DEFAULT_UNITS: LengthUnit = "mm";
+
+// Conversion factor from each unit to millimeters
+export const UNIT_TO_MM: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+export const UNIT_LABELS: Record<LengthUnit, string> = {
+  mm: "Millimeters",
+  cm: "Centimeters",
+  m: "Meters",
+  in: "Inches",
+};
+
+// Reference image limits for multimodal prompts
+export const MAX_REFERENCE_IMAGES = 4;
+export const MAX_REFERENCE_IMAGE_BYTES = 4 * 1024 * 1024;
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  provider: "gemini",
+  geminiModel: "gemini-2.5-flash",
+  openAIBaseUrl: "http://localhost:11434/v1",
+  openAIModel: "llama3.1",
+  openAIApiKey: "",
+  recordResponses: false,
+  autoCorrectPlausibility: false,
+  maxCorrectionRounds: 2,
+  requestTimeoutSeconds: 120,
+  maxRetries: 3,
+  stylePresetId: "standard",
+};
+
+export const MAX_CORRECTION_ROUNDS = 5;
+export const MAX_RETRIES = 6;
+
+// Color of parts added by hand from the primitive palette
+export const NEW_PART_COLOR = "#94a3b8";
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Edits of the same fields of the same parts within this window become one undo step (gizmo nudges, color picker drags)
+export const HISTORY_COALESCE_MS = 1000;
+
+// A dragged part snaps to the faces, edges and centers of other parts closer than this, in grid cells
+export const PART_SNAP_DISTANCE = 0.25;
+
+export const MAX_VARIANTS = 4;
+// Variants spread their sampling temperature across this range, from conservative to exploratory
+export const VARIANT_TEMPERATURE_RANGE: [number, number] = [0.2, 0.9];
+
 export const INITIAL_PROMPT_EXAMPLES = [
   "A futuristic sci-fi chair with neon accents",
   "A simple low-poly tree",
   "A red robot with square head and wheels",
   "A cozy log cabin",
   "A space rocket ready for launch"
-];
\ No newline at end of file
+];
+
+// Built-in generation styles. The first one is the fallback when a saved selection no longer exists
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: "standard",
+    name: "Standard",
+    instruction: "",
+    palette: [],
+    temperature: 0.3,
+  },
+  {
+    id: "low-poly",
+    name: "Low-Poly",
+    instruction: "Faceted, stylized look. Prefer boxes, cones and icosahedrons, use 5-8 segments on cylinders, cones and revolves, and skip fine detail and profile arcs.",
+    partBudget: [6, 20],
+    palette: ["#8ecae6", "#219ebc", "#ffb703", "#fb8500", "#90be6d", "#f4f1de"],
+    temperature: 0.5,
+  },
+  {
+    id: "mechanical",
+    name: "Mechanical / Industrial",
+    instruction: "Functional hardware in mm. Model fasteners, ribs, chamfers and bearing seats; bolt holes, slots and pockets are subtract cuts. Keep wall thicknesses and clearances realistic.",
+    partBudget: [15, 60],
+    palette: ["#4a4e54", "#7d8590", "#b8bec6", "#2b2d31", "#f2b705", "#c0392b"],
+    temperature: 0.2,
+  },
+  {
+    id: "architectural",
+    name: "Architectural",
+    instruction: "Buildings and structures in m. Walls are thin boxes, door and window openings are subtract cuts, add floor slabs and a roof (extrude the gable profile). Keep everything axis-aligned.",
+    partBudget: [10, 50],
+    palette: ["#e8e4dc", "#c9c1b3", "#8c7a6b", "#5d6d7e", "#a9cce3", "#3e4a3d"],
+    temperature: 0.3,
+  },
+  {
+    id: "toy",
+    name: "Toy / Organic",
+    instruction: "Rounded, friendly forms with chunky proportions. Prefer spheres, tori and revolves with bulged profiles, avoid sharp edges and thin parts.",
+    partBudget: [6, 30],
+    palette: ["#e63946", "#f1c40f", "#2a9d8f", "#457b9d", "#ff8fab", "#fefae0"],
+    temperature: 0.6,
+  },
+];
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  { id: "chair", category: "Furniture", text: "A {material} chair with {n} legs", defaults: { material: "oak", n: "4" } },
+  { id: "table", category: "Furniture", text: "A {style} dining table for {n} people", defaults: { style: "mid-century", n: "6" } },
+  { id: "shelf", category: "Furniture", text: "A {material} bookshelf with {n} shelves", defaults: { material: "plywood", n: "5" } },
+  { id: "bracket", category: "Mechanical", text: "An L-shaped {material} mounting bracket with {n} bolt holes", defaults: { material: "steel", n: "4" } },
+  { id: "gear", category: "Mechanical", text: "A spur gear with {teeth} teeth and a {bore} mm keyed bore", defaults: { teeth: "24", bore: "12" } },
+  { id: "flange", category: "Mechanical", text: "A pipe flange for a {diameter} mm pipe with {n} bolt holes", defaults: { diameter: "50", n: "6" } },
+  { id: "house", category: "Architecture", text: "A {n}-story {style} house with a {roof} roof", defaults: { n: "2", style: "Scandinavian", roof: "gable" } },
+  { id: "tower", category: "Architecture", text: "A {material} watchtower with a {shape} lookout platform", defaults: { material: "timber", shape: "square" } },
+  { id: "robot", category: "Characters", text: "A {color} robot with a {head} head and {n} wheels", defaults: { color: "red", head: "square", n: "4" } },
+  { id: "vase", category: "Decor", text: "A {height} mm tall {style} vase", defaults: { height: "300", style: "fluted" } },
+];
@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { CameraProjection } from '../types';
+
+// Fixed view of the model, looking along -direction at the center of its bounds
+export interface StandardView {
+  id: string; // Stored in the view state, e.g. "TOP"
+  label: string;
+  short: string; // Button text where space is tight
+  direction: [number, number, number]; // From the model towards the camera
+}
+
+const ISO = 1 / Math.sqrt(3);
+
+export const STANDARD_VIEWS: StandardView[] = [
+  { id: 'TOP', label: 'Top', short: 'Top', direction: [0, 1, 0] },
+  { id: 'BOTTOM', label: 'Bottom', short: 'Bottom', direction: [0, -1, 0] },
+  { id: 'FRONT', label: 'Front', short: 'Front', direction: [0, 0, 1] },
+  { id: 'BACK', label: 'Back', short: 'Back', direction: [0, 0, -1] },
+  { id: 'LEFT', label: 'Left', short: 'Left', direction: [-1, 0, 0] },
+  { id: 'SIDE', label: 'Right', short: 'Right', direction: [1, 0, 0] }, // Kept as "SIDE", the id used before left/right existed
+  { id: 'ISO', label: 'Iso top front right', short: 'TFR', direction: [ISO, ISO, ISO] },
+  { id: 'ISO_TFL', label: 'Iso top front left', short: 'TFL', direction: [-ISO, ISO, ISO] },
+  { id: 'ISO_TBL', label: 'Iso top back left', short: 'TBL', direction: [-ISO, ISO, -ISO] },
+  { id: 'ISO_TBR', label: 'Iso top back right', short: 'TBR', direction: [ISO, ISO, -ISO] },
+  { id: 'ISO_BFR', label: 'Iso bottom front right', short: 'BFR', direction: [ISO, -ISO, ISO] },
+  { id: 'ISO_BFL', label: 'Iso bottom front left', short: 'BFL', direction: [-ISO, -ISO, ISO] },
+  { id: 'ISO_BBL', label: 'Iso bottom back left', short: 'BBL', direction: [-ISO, -ISO, -ISO] },
+  { id: 'ISO_BBR', label: 'Iso bottom back right', short: 'BBR', direction: [ISO, -ISO, -ISO] },
+];
+
+export const getStandardView = (id: string): StandardView =>
+  STANDARD_VIEWS.find(view => view.id === id) ?? STANDARD_VIEWS.find(view => view.id === 'ISO')!;
+
+// Where the camera is and how much it sees. The visible height works for both projections:
+// it sets the distance of a perspective camera and the zoom of an orthographic one
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  viewHeight: number; // Height of the view at the target, in model units
+}
+
+// Room left around the bounds when a view is framed
+const FRAME_MARGIN = 1.2;
+
+/**
+ * Distance from the target at which a perspective camera shows the given height.
+ */
+export const getPerspectiveDistance = (viewHeight: number, fov: number) =>
+  viewHeight / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+
+/**
+ * Frames the bounds from the given direction so they fill the view, for a view of the given aspect
+ * (width / height). The camera stands well outside the bounds so an orthographic view isn't clipped.
+ */
+export const frameBounds = (bounds: THREE.Box3, direction: THREE.Vector3, aspect: number, fov: number): CameraPose => {
+  const target = bounds.getCenter(new THREE.Vector3());
+  const radius = Math.max(bounds.getBoundingSphere(new THREE.Sphere()).radius, 1e-6);
+  const forward = direction.clone().normalize().negate();
+
+  // Camera axes as OrbitControls will set them (Y up); looking straight down -Z is up on screen, looking up +Z
+  const worldUp = Math.abs(forward.y) > 0.999 ? new THREE.Vector3(0, 0, Math.sign(forward.y)) : new THREE.Vector3(0, 1, 0);
+  const right = new THREE.Vector3().crossVectors(forward, worldUp).normalize();
+  const up = new THREE.Vector3().crossVectors(right, forward);
+
+  // Extents of the box as seen from the camera
+  let width = 0;
+  let height = 0;
+  const { min, max } = bounds;
+  [0, 1, 2, 3, 4, 5, 6, 7].forEach(i => {
+    const corner = new THREE.Vector3(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z).sub(target);
+    width = Math.max(width, 2 * Math.abs(corner.dot(right)));
+    height = Math.max(height, 2 * Math.abs(corner.dot(up)));
+  });
+  const viewHeight = Math.max(height, width / aspect, radius * 0.01) * FRAME_MARGIN;
+
+  // Parts in front of the target look larger in perspective, so the camera backs off by half the radius.
+  // It never stands inside the bounds, which would clip an orthographic view
+  const distance = Math.max(getPerspectiveDistance(viewHeight, fov) + radius / 2, radius * 2);
+  return { position: target.clone().addScaledVector(direction.clone().normalize(), distance), target, viewHeight };
+};
+
+/**
+ * Visible height at the target for the current camera.
+ */
+export const getViewHeight = (camera: THREE.Camera, target: THREE.Vector3): number => {
+  if ((camera as THREE.OrthographicCamera).isOrthographicCamera) {
+    const ortho = camera as THREE.OrthographicCamera;
+    return (ortho.top - ortho.bottom) / ortho.zoom;
+  }
+  const fov = (camera as THREE.PerspectiveCamera).fov ?? 45;
+  return 2 * camera.position.distanceTo(target) * Math.tan(THREE.MathUtils.degToRad(fov) / 2);
+};
+
+export const getProjection = (camera: THREE.Camera): CameraProjection =>
+  (camera as THREE.OrthographicCamera).isOrthographicCamera ? 'orthographic' : 'perspective';
+
+/**
+ * Pose between two others. The view direction turns around the target instead of
+ * cutting through it, so flying from front to back orbits the model.
+ */
+export const interpolatePose = (from: CameraPose, to: CameraPose, t: number): CameraPose => {
+  const target = from.target.clone().lerp(to.target, t);
+  const fromOffset = from.position.clone().sub(from.target);
+  const toOffset = to.position.clone().sub(to.target);
+  const turn = new THREE.Quaternion().setFromUnitVectors(fromOffset.clone().normalize(), toOffset.clone().normalize());
+  const direction = fromOffset.clone().normalize().applyQuaternion(new THREE.Quaternion().slerp(turn, t));
+  const distance = THREE.MathUtils.lerp(fromOffset.length(), toOffset.length(), t);
+  return {
+    position: target.clone().addScaledVector(direction, distance),
+    target,
+    viewHeight: THREE.MathUtils.lerp(from.viewHeight, to.viewHeight, t),
+  };
+};
@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { Brush, Evaluator, ADDITION, SUBTRACTION, INTERSECTION, CSGOperation } from 'three-bvh-csg';
+import { BooleanOperation, GeneratedModel, ModelPart, ShapeType } from '../types';
+import { flattenModel, resolveParents } from './hierarchyService';
+import { createPartGeometry } from './primitiveRegistry';
+
+const OPERATIONS: Record<BooleanOperation, CSGOperation> = {
+  union: ADDITION,
+  subtract: SUBTRACTION,
+  intersect: INTERSECTION,
+};
+
+/**
+ * A tool is a part that carries an operation against an existing, different part or group.
+ * Tools are consumed by their target and never rendered or exported on their own.
+ */
+export const isBooleanTool = (part: ModelPart, parts: ModelPart[]): boolean =>
+  !!part.operation &&
+  !!OPERATIONS[part.operation] &&
+  !!part.targetId &&
+  part.targetId !== part.id &&
+  parts.some(p => p.id === part.targetId);
+
+// Results of the previous evaluation, keyed by part id, with the inputs they were computed from
+export type BooleanCache = Map<string, { key: string, geometry: THREE.BufferGeometry }>;
+
+/**
+ * Evaluates every boolean operation in the model.
+ * Returns the resulting geometry for each affected part, keyed by part id, expressed in that
+ * part's mesh-local space (so it is drawn and exported with the part's usual transform & scale).
+ * Tools targeting a group are applied to every solid inside that group, in model order.
+ * With a cache, parts whose own fields and tools are unchanged since the last call reuse their
+ * previous result, so a model that grows part by part is not cut again from scratch. The cache
+ * then holds exactly the returned results; the caller owns and disposes them.
+ */
+export const computeBooleanGeometries = (model: GeneratedModel, cache?: BooleanCache): Map<string, THREE.BufferGeometry> => {
+  const results = new Map<string, THREE.BufferGeometry>();
+  const keys = new Map<string, string>();
+  const tools = model.parts.filter(p => isBooleanTool(p, model.parts));
+  if (tools.length === 0) {
+    cache?.clear();
+    return results;
+  }
+
+  const parents = resolveParents(model.parts);
+  const flat = flattenModel(model);
+  const matrixById = new Map(flat.map(({ part, matrix }) => [part.id, matrix]));
+
+  // Is `id` the target itself or nested somewhere below it?
+  const isWithin = (id: string, targetId: string) => {
+    let cursor: string | undefined = id;
+    while (cursor) {
+      if (cursor === targetId) return true;
+      cursor = parents.get(cursor);
+    }
+    return false;
+  };
+
+  const evaluator = new Evaluator();
+  evaluator.useGroups = false;
+
+  flat.forEach(({ part, matrix }) => {
+    if (part.type === ShapeType.GROUP || isBooleanTool(part, model.parts)) return;
+
+    const partTools = tools.filter(tool => isWithin(part.id, tool.targetId!));
+    if (partTools.length === 0) return;
+
+    const toLocal = matrix.clone().invert();
+    // Each tool is baked into the target's mesh space, so only its placement relative to the target matters
+    const toolMatrices = partTools.map(tool => matrixById.get(tool.id) && toLocal.clone().multiply(matrixById.get(tool.id)!));
+    const key = JSON.stringify([part, partTools.map((tool, i) => [tool, toolMatrices[i]?.elements])]);
+    const cached = cache?.get(part.id);
+    if (cached?.key === key) {
+      results.set(part.id, cached.geometry);
+      keys.set(part.id, key);
+      return;
+    }
+
+    try {
+      let result = new Brush(createPartGeometry(part));
+      result.updateMatrixWorld();
+
+      partTools.forEach((tool, i) => {
+        const toolMatrix = toolMatrices[i];
+        if (!toolMatrix) return;
+
+        // Bake the tool into the target's mesh space so both brushes share one frame
+        const toolGeometry = createPartGeometry(tool).applyMatrix4(toolMatrix);
+        const brush = new Brush(toolGeometry);
+        brush.updateMatrixWorld();
+
+        const next = evaluator.evaluate(result, brush, OPERATIONS[tool.operation!]);
+        result.geometry.dispose();
+        toolGeometry.dispose();
+        result = next;
+      });
+
+      results.set(part.id, result.geometry);
+      keys.set(part.id, key);
+    } catch (error) {
+      // A failed operation leaves the part unmodified rather than breaking the scene
+      console.warn(`Boolean evaluation failed for part "${part.id}":`, error);
+    }
+  });
+
+  if (cache) {
+    cache.clear();
+    results.forEach((geometry, id) => cache.set(id, { key: keys.get(id)!, geometry }));
+  }
+  return results;
+};
@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { GeneratedModel, ModelPart, ShapeType } from '../types';
+import { flattenModel, getWorldFrameMatrix, resolveParents } from './hierarchyService';
+import { getPartBounds } from './primitiveRegistry';
+
+// How the viewport draws parts; only the view changes, never the model
+export type DisplayMode = 'shaded' | 'shaded-edges' | 'wireframe' | 'xray' | 'hidden-line';
+
+export const DISPLAY_MODES: { mode: DisplayMode, label: string }[] = [
+  { mode: 'shaded', label: 'Shaded' },
+  { mode: 'shaded-edges', label: 'Shaded + edges' },
+  { mode: 'wireframe', label: 'Wireframe' },
+  { mode: 'xray', label: 'X-ray' },
+  { mode: 'hidden-line', label: 'Hidden line' },
+];
+
+export type ColorBy = 'original' | 'type' | 'index';
+
+export const COLOR_BY_OPTIONS: { colorBy: ColorBy, label: string }[] = [
+  { colorBy: 'original', label: 'Original' },
+  { colorBy: 'type', label: 'Type' },
+  { colorBy: 'index', label: 'Index' },
+];
+
+const TYPE_COLORS: Partial<Record<ShapeType, string>> = {
+  [ShapeType.BOX]: '#3b82f6',
+  [ShapeType.SPHERE]: '#22c55e',
+  [ShapeType.CYLINDER]: '#f97316',
+  [ShapeType.CONE]: '#eab308',
+  [ShapeType.TORUS]: '#d946ef',
+  [ShapeType.ICOSAHEDRON]: '#14b8a6',
+  [ShapeType.EXTRUDE]: '#ef4444',
+  [ShapeType.REVOLVE]: '#8b5cf6',
+};
+
+// Hue step between neighbouring indices (golden angle), so nearby parts never get similar colors
+const INDEX_HUE_STEP = 137.508;
+
+// Plugin primitives get a stable hue from their type name
+const hashHue = (text: string) => Array.from(text).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 360, 7);
+
+/**
+ * Color each part is drawn with for the given color-by mode.
+ */
+export const getDisplayColors = (parts: ModelPart[], colorBy: ColorBy): Map<string, string> =>
+  new Map(parts.map((part, index) => {
+    if (colorBy === 'type') {
+      const color = TYPE_COLORS[part.type as ShapeType] ?? `#${new THREE.Color().setHSL(hashHue(part.type) / 360, 0.6, 0.55).getHexString()}`;
+      return [part.id, color];
+    }
+    if (colorBy === 'index') {
+      return [part.id, `#${new THREE.Color().setHSL(((index * INDEX_HUE_STEP) % 360) / 360, 0.65, 0.55).getHexString()}`];
+    }
+    return [part.id, part.color || '#cccccc'];
+  }));
+
+/**
+ * Offsets that pull the model apart, in each part's parent frame, for an explode factor of 1
+ * (every distance from the centroid doubled); the viewer scales them by its slider. Siblings move
+ * away from the centroid of their subtrees, so a flat model spreads out from the assembly centroid
+ * and a hierarchy opens up level by level, children moving along with their parent.
+ * Parts sitting on the centroid stay put.
+ */
+export const getExplodeOffsets = (model: GeneratedModel): Map<string, THREE.Vector3> => {
+  const partsById = new Map(model.parts.map(p => [p.id, p]));
+  const parents = resolveParents(model.parts);
+
+  // Bounds of every subtree, found by adding each mesh to all of its ancestors
+  const subtreeBounds = new Map(model.parts.map(p => [p.id, new THREE.Box3()]));
+  flattenModel(model).forEach(({ part, matrix }) => {
+    const bounds = getPartBounds(part, matrix);
+    for (let cursor: string | undefined = part.id; cursor; cursor = parents.get(cursor)) subtreeBounds.get(cursor)!.union(bounds);
+  });
+  const getCenter = (part: ModelPart) => {
+    const bounds = subtreeBounds.get(part.id)!;
+    // An empty group explodes from its origin
+    return bounds.isEmpty()
+      ? new THREE.Vector3().setFromMatrixPosition(getWorldFrameMatrix(part, partsById, parents))
+      : bounds.getCenter(new THREE.Vector3());
+  };
+
+  const siblings = new Map<string | undefined, ModelPart[]>();
+  model.parts.forEach(part => {
+    const parentId = parents.get(part.id);
+    siblings.set(parentId, [...(siblings.get(parentId) ?? []), part]);
+  });
+
+  const offsets = new Map<string, THREE.Vector3>();
+  siblings.forEach((group, parentId) => {
+    if (group.length < 2) return;
+    const centers = group.map(getCenter);
+    const centroid = centers.reduce((sum, center) => sum.add(center), new THREE.Vector3()).divideScalar(centers.length);
+
+    // Offsets are found in model space and applied inside the parent, which may be rotated or scaled
+    const parent = partsById.get(parentId ?? '');
+    const toParent = new THREE.Matrix3().setFromMatrix4(
+      parent ? getWorldFrameMatrix(parent, partsById, parents).invert() : new THREE.Matrix4()
+    );
+    group.forEach((part, i) => {
+      const offset = centers[i].clone().sub(centroid).applyMatrix3(toParent);
+      if (offset.lengthSq() > 0) offsets.set(part.id, offset);
+    });
+  });
+
+  return offsets;
+};
@@ -1,5 +1,9 @@
 import * as THREE from 'three';
-import { GeneratedModel, ShapeType } from '../types';
+import { GeneratedModel, LengthUnit } from '../types';
+import { DEFAULT_UNITS, UNIT_TO_MM } from '../constants';
+import { flattenModel, flattenModelParts, getInheritedIds } from './hierarchyService';
+import { createPartGeometry } from './primitiveRegistry';
+import { computeBooleanGeometries, isBooleanTool } from './csgService';
 
 export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
@@ -12,59 +16,53 @@ export const downloadBlob = (blob: Blob, filename: string) => {
   URL.revokeObjectURL(url);
 };
 
-export const saveAsPart = (model: GeneratedModel) => {
-  const jsonStr = JSON.stringify(model, null, 2);
+/**
+ * Downloads a PNG data URL rendered from the viewport, e.g. "Chair_section.png".
+ */
+export const saveSnapshot = (dataUrl: string, modelName: string | undefined, suffix: string) => {
+  const safeName = (modelName || 'untitled_model').replace(/\s+/g, '_');
+  const a = document.createElement('a');
+  a.href = dataUrl;
+  a.download = `${safeName}_${suffix}.png`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+export const saveAsPart = (model: GeneratedModel, options: { flatten?: boolean } = {}) => {
+  // Flattened files bake the assembly hierarchy into world-space parts for tools that don't understand parentId
+  const data = options.flatten ? flattenModelParts(model) : model;
+  const jsonStr = JSON.stringify(data, null, 2);
   const blob = new Blob([jsonStr], { type: 'application/json' });
   // Replace spaces with underscores for safe filename
   const safeName = (model.name || 'untitled_model').replace(/\s+/g, '_');
-  downloadBlob(blob, `${safeName}.part`);
+  downloadBlob(blob, options.flatten ? `${safeName}_flat.part` : `${safeName}.part`);
 };
 
-export const saveAsSTL = (model: GeneratedModel) => {
+/**
+ * Writes the model at its true size. STL carries no unit, so coordinates are converted
+ * from the model's unit to the requested one and the unit is added to the file name.
+ * With visibleOnly, hidden parts are left out; hidden boolean tools still cut their visible targets.
+ */
+export const saveAsSTL = (model: GeneratedModel, units: LengthUnit = model.units ?? DEFAULT_UNITS, options: { visibleOnly?: boolean } = {}) => {
   let stlString = 'solid exported\n';
 
-  model.parts.forEach(part => {
-    let geometry: THREE.BufferGeometry;
+  const unitScale = UNIT_TO_MM[model.units ?? DEFAULT_UNITS] / UNIT_TO_MM[units];
+  const unitMatrix = new THREE.Matrix4().makeScale(unitScale, unitScale, unitScale);
 
-    // 1. Recreate geometry to match ShapeRenderer logic
-    const args = part.args || [];
-    switch (part.type) {
-      case ShapeType.BOX: 
-        geometry = new THREE.BoxGeometry(1, 1, 1); 
-        break;
-      case ShapeType.SPHERE: 
-        geometry = new THREE.SphereGeometry(args[0] || 1, 32, 16); 
-        break;
-      case ShapeType.CYLINDER: 
-        geometry = new THREE.CylinderGeometry(args[0] || 1, args[1] || 1, args[2] || 1, 32); 
-        break;
-      case ShapeType.CONE: 
-        geometry = new THREE.ConeGeometry(args[0] || 1, args[1] || 1, 32); 
-        break;
-      case ShapeType.TORUS: 
-        geometry = new THREE.TorusGeometry(args[0] || 1, args[1] || 0.4, 32, 24); 
-        break;
-      case ShapeType.ICOSAHEDRON: 
-        geometry = new THREE.IcosahedronGeometry(args[0] || 1, 0); 
-        break;
-      default: 
-        geometry = new THREE.BoxGeometry(1, 1, 1);
-    }
+  const booleanGeometries = computeBooleanGeometries(model);
+  const hiddenIds = options.visibleOnly ? getInheritedIds(model.parts, 'hidden') : new Set<string>();
 
-    // 2. Apply Scale
-    // ShapeRenderer applies scale prop to mesh.scale
-    const sx = part.scale?.[0] ?? 1;
-    const sy = part.scale?.[1] ?? 1;
-    const sz = part.scale?.[2] ?? 1;
-    geometry.scale(sx, sy, sz);
+  // Boolean tools only exist to modify their target, they are not solids of their own
+  flattenModel(model).filter(({ part }) => !isBooleanTool(part, model.parts) && !hiddenIds.has(part.id)).forEach(({ part, matrix }) => {
+    // 1. Recreate geometry to match ShapeRenderer logic (boolean results are already evaluated)
+    const geometry = booleanGeometries.get(part.id)?.clone() ?? createPartGeometry(part);
 
-    // 3. Apply Rotation & Position
-    geometry.rotateX(part.rotation[0]);
-    geometry.rotateY(part.rotation[1]);
-    geometry.rotateZ(part.rotation[2]);
-    geometry.translate(part.position[0], part.position[1], part.position[2]);
+    // 2. Apply the world transform (mesh scale, own rotation & position, then every parent frame)
+    geometry.applyMatrix4(matrix);
+    geometry.applyMatrix4(unitMatrix);
 
-    // 4. Extract Triangles for STL
+    // 3. Extract Triangles for STL
     const posAttribute = geometry.attributes.position;
     const index = geometry.index;
     
@@ -106,9 +104,11 @@ export const saveAsSTL = (model: GeneratedModel) => {
     }
   });
 
+  booleanGeometries.forEach(geometry => geometry.dispose());
+
   stlString += 'endsolid exported\n';
   
   const safeName = (model.name || 'untitled_model').replace(/\s+/g, '_');
   const blob = new Blob([stlString], { type: 'text/plain' });
-  downloadBlob(blob, `${safeName}.stl`);
+  downloadBlob(blob, `${safeName}_${units}.stl`);
 };
@@ -0,0 +1,122 @@
+// Arithmetic for numeric inputs: "25.4 * 3", "(40 - 2) / 2", "sqrt(2) * 10", "pi / 4".
+// Parsed by hand so user input is never passed to eval.
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  rad: (degrees: number) => (degrees * Math.PI) / 180,
+  deg: (radians: number) => (radians * 180) / Math.PI,
+};
+
+const TOKEN_PATTERN = /\s*(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),])/iy;
+
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < text.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      if (text.slice(start).trim() === '') break;
+      throw new Error(`Unexpected "${text.slice(start).trim()[0]}"`);
+    }
+    tokens.push(match[1] === '**' ? '^' : match[1]);
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression with + - * / % ^, parentheses, pi, e and a few Math functions.
+ * Throws with a short message when the text is not a valid expression or the result is not finite.
+ */
+export const evaluateExpression = (text: string): number => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) throw new Error('Enter a value');
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new Error(tokens[pos] === undefined ? `Missing "${token}"` : `Expected "${token}" before "${tokens[pos]}"`);
+    pos++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = tokens[pos++] === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = tokens[pos++];
+      const rhs = parseUnary();
+      value = operator === '*' ? value * rhs : operator === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  // unary := ('+' | '-') unary | power
+  const parseUnary = (): number => {
+    if (peek() === '-') { pos++; return -parseUnary(); }
+    if (peek() === '+') { pos++; return parseUnary(); }
+    return parsePower();
+  };
+
+  // power := atom ('^' unary)?   (right associative, so 2^3^2 = 2^9)
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() !== '^') return base;
+    pos++;
+    return base ** parseUnary();
+  };
+
+  const parseAtom = (): number => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (name in FUNCTIONS) {
+      expect('(');
+      const args = [parseExpression()];
+      while (peek() === ',') { pos++; args.push(parseExpression()); }
+      expect(')');
+      return FUNCTIONS[name](...args);
+    }
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new Error(/^\w/.test(token) ? `Unknown name "${token}"` : `Unexpected "${token}"`);
+  };
+
+  const value = parseExpression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(value)) throw new Error('Result is not a finite number');
+  return value;
+};
+
+/**
+ * Shortest readable form of a stored value, without float noise such as 0.30000000000000004.
+ */
+export const formatNumber = (value: number): string => String(Number(value.toPrecision(10)));
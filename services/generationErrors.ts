@@ -0,0 +1,80 @@
+import { ApiError } from "@google/genai";
+
+export type GenerationErrorKind = 'auth' | 'quota' | 'network' | 'timeout' | 'server' | 'parse' | 'cancelled' | 'unknown';
+
+/**
+ * Error raised by the generation pipeline, classified so the UI can say what actually went wrong
+ * and the retry logic knows whether trying again can help.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly status?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  // Rate limits, overloaded servers, dropped connections and stalled requests are usually gone a moment later
+  get isRetryable() {
+    return this.kind === 'quota' || this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+const ERROR_TITLES: Record<GenerationErrorKind, string> = {
+  auth: 'Authentication failed',
+  quota: 'Rate limit or quota exceeded',
+  network: 'Network error',
+  timeout: 'Request timed out',
+  server: 'Model server error',
+  parse: 'Unusable response',
+  cancelled: 'Cancelled',
+  unknown: 'Generation failed',
+};
+
+const kindFromStatus = (status: number): GenerationErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Maps anything a provider can throw onto a GenerationError.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new GenerationError('cancelled', 'The request was cancelled.');
+  }
+  if (error instanceof ApiError) {
+    return new GenerationError(kindFromStatus(error.status), message, error.status);
+  }
+
+  // Providers report HTTP failures as "... responded <status>: ..."
+  const statusMatch = message.match(/\b(?:responded|status(?: code)?:?)\s*(\d{3})\b/i);
+  if (statusMatch) {
+    const status = parseInt(statusMatch[1], 10);
+    return new GenerationError(kindFromStatus(status), message, status);
+  }
+  if (/api key|unauthori[sz]ed|permission denied/i.test(message)) return new GenerationError('auth', message);
+  if (/quota|rate limit|resource.?exhausted/i.test(message)) return new GenerationError('quota', message);
+  if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED|ENOTFOUND|load failed/i.test(message)) {
+    return new GenerationError('network', message);
+  }
+  return new GenerationError('unknown', message);
+};
+
+/**
+ * One-line notification text: what kind of failure, then the provider's own message.
+ */
+export const describeGenerationError = (error: unknown): string => {
+  const { kind, message } = classifyError(error);
+  return `${ERROR_TITLES[kind]}: ${message}`;
+};
@@ -0,0 +1,366 @@
+import { Type, Schema } from "@google/genai";
+import { ChatMessage, DesignVariant, GeneratedModel, ImageAttachment, ModelPatch, StylePreset } from "../types";
+import { DEFAULT_GENERATOR_SETTINGS, VARIANT_TEMPERATURE_RANGE } from "../constants";
+import { createModelGenerator, GenerationRequest, ModelGenerator, RequestOptions } from "./generatorRegistry";
+import { GenerationError } from "./generationErrors";
+import { createPartStreamParser, PartListener } from "./partStreamParser";
+import { sanitizePart, validateModel, ValidatedModel } from "./validationService";
+import { describePrimitives, getPrimitives } from "./primitiveRegistry";
+
+// Schema of a single part, shared by full models and refinement patches.
+// Built per request so primitives registered by plugins are offered too
+const buildPartSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, description: "Unique ID (e.g., 'part_01')" },
+    type: {
+      type: Type.STRING,
+      enum: getPrimitives().map(primitive => primitive.type),
+      description: "Geometric primitive type",
+    },
+    position: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: "[x, y, z] coordinates. Y is UP. Relative to the parent when parentId is set.",
+    },
+    rotation: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: "Euler rotation [x, y, z] in radians",
+    },
+    scale: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: "Scale [x, y, z]. Default is [1,1,1].",
+    },
+    args: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: `Geometry arguments. ${getPrimitives().map(({ label, args }) => `${label}:[${args.map(arg => arg.name).join(',')}]`).join(', ')}.`,
+    },
+    profile: {
+      type: Type.ARRAY,
+      items: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+      description: "Extrude/Revolve only. Closed 2D sketch as [x, y] or [x, y, bulge] vertices. Bulge = tan(arcAngle/4) makes the segment to the next vertex an arc.",
+    },
+    holes: {
+      type: Type.ARRAY,
+      items: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.NUMBER } } },
+      description: "Extrude only. Inner loops (same vertex format as profile) cut through the extrusion.",
+    },
+    color: {
+      type: Type.STRING,
+      description: "Hex color code (e.g., #FF0000)",
+    },
+    description: {
+      type: Type.STRING,
+      description: "Technical description (e.g., 'Chassis_Main')",
+    },
+    parentId: {
+      type: Type.STRING,
+      description: "Optional id of the parent part or group. Omit for top-level parts.",
+    },
+    operation: {
+      type: Type.STRING,
+      enum: ["union", "subtract", "intersect"],
+      description: "Optional boolean operation. Turns this part into a cutting/merging tool applied to targetId.",
+    },
+    targetId: {
+      type: Type.STRING,
+      description: "Id of the part or group the operation is applied to. Required with operation.",
+    },
+  },
+  required: ["id", "type", "position", "rotation", "scale", "color", "description"],
+});
+
+// Define the response schema strictly to ensure valid JSON output for 3D construction
+const buildModelSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    name: {
+      type: Type.STRING,
+      description: "A short, technical name for the generated model",
+    },
+    units: {
+      type: Type.STRING,
+      enum: ["mm", "cm", "m", "in"],
+      description: "Length unit used for every position, dimension and profile coordinate in the model",
+    },
+    partCount: {
+      type: Type.INTEGER,
+      description: "Number of entries in parts, stated before the list so progress can be shown while it streams",
+    },
+    parts: {
+      type: Type.ARRAY,
+      description: "List of geometric parts. Order from base/center outwards.",
+      items: buildPartSchema(),
+    },
+  },
+  required: ["name", "units", "partCount", "parts"],
+  // Header fields first: parts are consumed incrementally while the response streams
+  propertyOrdering: ["name", "units", "partCount", "parts"],
+});
+
+/**
+ * Robustly attempts to extract JSON from a potentially messy string.
+ */
+const cleanAndParseJSON = <T>(text: string): T => {
+  let cleanText = text;
+
+  // 1. Try to extract from Markdown code blocks first
+  const codeBlockRegex = /```(?:json)?\s*(\{[\s\S]*?\})\s*```/i;
+  const match = text.match(codeBlockRegex);
+  if (match) {
+    cleanText = match[1];
+  } else {
+    // 2. If no code block, try to find the outermost JSON object
+    const firstOpen = text.indexOf('{');
+    const lastClose = text.lastIndexOf('}');
+    if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
+      cleanText = text.substring(firstOpen, lastClose + 1);
+    }
+  }
+
+  // 3. Cleanup common issues
+  // Remove trailing commas which are invalid in JSON but common in LLM output
+  cleanText = cleanText.replace(/,(\s*[}\]])/g, '$1');
+
+  try {
+    return JSON.parse(cleanText) as T;
+  } catch (e) {
+    console.error("JSON Parse Error. Raw Text:", text);
+    console.error("Cleaned Text:", cleanText);
+    throw new GenerationError('parse', "Could not interpret the model data. The design was too abstract.");
+  }
+};
+
+const DEFAULT_TEMPERATURE = 0.3;
+
+const buildSystemInstruction = () => `
+    You are a CAD (Computer-Aided Design) generative engine. 
+    Convert the user's description into a structural list of 3D geometric primitives.
+    
+    Principles:
+    1. **Decomposition**: Break complex shapes into multiple simple primitives. 
+       - Example: A "shaft" is not just one cylinder. It is a main cylinder + two smaller cylinders for bearings + a keyway box cut into it + chamfered ends.
+       - Example: A "table" is 4 leg cylinders + 1 top box + support beams.
+    2. **Details**: Add visual interest. Use multiple parts even for simple objects.
+    3. **Orientation**: Y-axis is vertical UP.
+    4. **Units**: Use TRUE real-world dimensions. Pick the unit that suits the object ("mm" for hardware and products, "m" for buildings) and set "units" accordingly.
+       - Example: A dining chair in "mm" has a seat ~450 high, not 1 or 5.
+    5. **Assemblies**: Group related parts into sub-assemblies. Create a part of type "group" (no geometry) and set "parentId" on its children.
+       - Children's position and rotation are LOCAL to their parent. A group's scale also applies to its children.
+       - Example: A "chair" is a seat + a "legs" group containing 4 leg cylinders positioned relative to the group.
+    6. **Cuts**: Holes, pockets, slots and keyways are REMOVED material. Model them as a tool part with "operation": "subtract" and "targetId" set to the part (or group) being cut.
+       - Example: A bolt hole through a plate is a cylinder with operation "subtract" targeting the plate. The tool itself is not visible.
+       - "intersect" keeps only the overlap with the target, "union" fuses the tool into the target.
+    7. **References**: When sketches or photos are attached, reproduce the depicted object: match its silhouette, proportions, part count and colors. Text in the prompt takes precedence over the image.
+    8. **Output**: STRICT JSON ONLY. Do not include markdown formatting or conversational text in the response.
+    
+    Arg Guidelines:
+${describePrimitives().map(line => `    - ${line}`).join('\n')}
+    - Profile arcs: append a bulge as a third vertex value ([x, y, bulge]); bulge 1 is a half circle, 0.414 a quarter circle.
+`;
+
+/**
+ * Style guidance appended to a system instruction. Presets without any guidance leave it unchanged.
+ */
+const withStyle = (instruction: string, preset?: StylePreset): string => {
+  if (!preset) return instruction;
+  const rules = [
+    preset.instruction,
+    preset.partBudget && `Use between ${preset.partBudget[0]} and ${preset.partBudget[1]} parts.`,
+    preset.palette.length > 0 && `Take every color from this palette: ${preset.palette.join(', ')}.`,
+  ].filter(Boolean);
+  if (rules.length === 0) return instruction;
+
+  return `${instruction}
+    Style (${preset.name}):
+${rules.map(rule => `    - ${rule}`).join('\n')}
+`;
+};
+
+export interface StyledRequestOptions extends RequestOptions {
+  preset?: StylePreset; // Style guidance and default temperature
+}
+
+export interface GenerateOptions extends StyledRequestOptions {
+  onPart?: PartListener; // Stream the response and report each part as soon as it is complete
+  temperature?: number; // Overrides the preset's temperature
+  seed?: number;
+}
+
+/**
+ * Generates a complete, validated model. With onPart the response is streamed and every part is
+ * reported as soon as it is complete; the resolved model is still the full, final parse.
+ */
+export const generate3DModel = async (
+  description: string,
+  images: ImageAttachment[] = [],
+  generator: ModelGenerator = createModelGenerator(DEFAULT_GENERATOR_SETTINGS),
+  { onPart, preset, temperature = preset?.temperature ?? DEFAULT_TEMPERATURE, seed, signal, onRetry }: GenerateOptions = {}
+): Promise<ValidatedModel> => {
+  try {
+    const request: GenerationRequest = {
+      kind: 'model',
+      systemInstruction: withStyle(buildSystemInstruction(), preset),
+      turns: [{ role: 'user', text: description || "Model the object shown in the reference image(s).", images }],
+      responseSchema: buildModelSchema(),
+      temperature,
+      ...(seed !== undefined ? { seed } : {}),
+      signal,
+      onRetry,
+    };
+
+    let text = '';
+    if (onPart) {
+      // Streamed parts get the same per-part repairs so the preview cannot crash the renderer
+      // Fallback ids come from the element's position in the array, as in the final parse
+      const parser = createPartStreamParser((raw, index, progress) => {
+        const part = sanitizePart(raw, index);
+        if (part) onPart(part, progress);
+      });
+      for await (const chunk of generator.streamText(request)) {
+        text += chunk;
+        parser.push(chunk);
+      }
+    } else {
+      text = await generator.generateText(request);
+    }
+
+    const data = cleanAndParseJSON<unknown>(text);
+    try {
+      return validateModel(data);
+    } catch (error) {
+      throw new GenerationError('parse', (error as Error).message);
+    }
+
+  } catch (error) {
+    console.error("Error generating 3D model:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generates several alternatives for one prompt in parallel, each with its own temperature and seed.
+ * Every variant is reported as soon as it is ready; failed ones are skipped unless all of them fail.
+ */
+export const generateVariants = async (
+  description: string,
+  images: ImageAttachment[],
+  generator: ModelGenerator,
+  count: number,
+  onVariant?: (variant: DesignVariant) => void,
+  options: StyledRequestOptions = {}
+): Promise<DesignVariant[]> => {
+  const [low, high] = VARIANT_TEMPERATURE_RANGE;
+
+  const results = await Promise.allSettled(Array.from({ length: count }, async (_, index) => {
+    const temperature = count > 1 ? Number((low + ((high - low) * index) / (count - 1)).toFixed(2)) : options.preset?.temperature ?? DEFAULT_TEMPERATURE;
+    const seed = index + 1;
+    const { model, report } = await generate3DModel(description, images, generator, { ...options, temperature, seed });
+
+    const variant: DesignVariant = { id: `variant-${seed}`, prompt: description, model, report, temperature, seed };
+    onVariant?.(variant);
+    return variant;
+  }));
+
+  const variants = results
+    .filter((result): result is PromiseFulfilledResult<DesignVariant> => result.status === 'fulfilled')
+    .map(result => result.value);
+
+  if (variants.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return variants;
+};
+
+const buildRefineInstruction = () => `${buildSystemInstruction()}
+    Refinement Mode:
+    You are editing an EXISTING model. You receive its current JSON and the user's change request.
+    Respond with a PATCH, not a new model:
+    - "added": complete new parts. Use ids that do not exist yet.
+    - "removed": ids of parts to delete. Children of removed groups and tools cutting removed parts are deleted with them.
+    - "modified": for each changed part, its "id" plus ONLY the fields that change (e.g. { "id": "leg_1", "scale": [40, 600, 40] }).
+    - "summary": one short sentence describing the change for the user.
+    Keep the model's units. Leave everything the user did not ask to change untouched.
+`;
+
+const buildPatchSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "One short sentence describing the change",
+    },
+    name: {
+      type: Type.STRING,
+      description: "New model name, only if it should change",
+    },
+    added: {
+      type: Type.ARRAY,
+      description: "New parts to add",
+      items: buildPartSchema(),
+    },
+    removed: {
+      type: Type.ARRAY,
+      description: "Ids of parts to remove",
+      items: { type: Type.STRING },
+    },
+    modified: {
+      type: Type.ARRAY,
+      description: "Changed parts: id plus only the fields that change",
+      items: { ...buildPartSchema(), required: ["id"] },
+    },
+  },
+  required: ["summary", "added", "removed", "modified"],
+});
+
+/**
+ * Asks for a change set against the current model instead of regenerating it from scratch.
+ * The conversation so far is replayed so follow-ups like "a bit more" keep their context.
+ */
+export const refine3DModel = async (
+  model: GeneratedModel,
+  history: ChatMessage[],
+  instruction: string,
+  images: ImageAttachment[] = [],
+  generator: ModelGenerator = createModelGenerator(DEFAULT_GENERATOR_SETTINGS),
+  { preset, signal, onRetry }: StyledRequestOptions = {}
+): Promise<ModelPatch> => {
+  try {
+    const text = await generator.generateText({
+      kind: 'patch',
+      systemInstruction: withStyle(buildRefineInstruction(), preset),
+      turns: [
+        ...history.map(message => ({
+          role: message.role === 'user' ? 'user' as const : 'model' as const,
+          text: message.text,
+        })),
+        {
+          role: 'user',
+          text: `Current model JSON:\n${JSON.stringify(model)}\n\nChange request: ${instruction || "Match the attached reference image(s)."}`,
+          images,
+        },
+      ],
+      responseSchema: buildPatchSchema(),
+      temperature: 0.2,
+      signal,
+      onRetry,
+    });
+
+    const patch = cleanAndParseJSON<ModelPatch>(text);
+
+    return {
+      summary: patch.summary || "Updated model",
+      ...(patch.name ? { name: patch.name } : {}),
+      added: patch.added || [],
+      removed: patch.removed || [],
+      modified: patch.modified || [],
+    };
+
+  } catch (error) {
+    console.error("Error refining 3D model:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,175 @@
+import { Schema } from '@google/genai';
+import { GeneratorProviderId, GeneratorSettings, ImageAttachment } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createFixtureProvider, recordResponse } from './providers/fixtureProvider';
+import { classifyError, GenerationError } from './generationErrors';
+
+export interface GenerationTurn {
+  role: 'user' | 'model';
+  text: string;
+  images?: ImageAttachment[];
+}
+
+export interface GenerationRequest {
+  kind: 'model' | 'patch'; // What the response JSON describes: a full model or a refinement patch
+  systemInstruction: string;
+  turns: GenerationTurn[];
+  responseSchema: Schema;
+  temperature: number;
+  seed?: number; // Fixed sampling seed, used to get distinct yet reproducible variants
+  signal?: AbortSignal; // Aborts the request (user cancel, timeout)
+  onRetry?: (attempt: number, delayMs: number, error: GenerationError) => void; // Called before each automatic retry
+}
+
+export type RequestOptions = Pick<GenerationRequest, 'signal' | 'onRetry'>;
+
+/**
+ * A backend that turns a generation request into raw JSON text.
+ * Parsing and post-processing stay in generationService so every provider behaves the same.
+ */
+export interface ModelGenerator {
+  id: GeneratorProviderId;
+  label: string;
+  generateText: (request: GenerationRequest) => Promise<string>;
+  streamText: (request: GenerationRequest) => AsyncIterable<string>; // Same text, delivered in chunks as it is produced
+}
+
+export const PROVIDER_LABELS: Record<GeneratorProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (llama.cpp / Ollama)',
+  fixture: 'Offline fixtures (replay)',
+};
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+const cancelledError = () => new GenerationError('cancelled', 'The request was cancelled.');
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    }, { once: true });
+  });
+
+/**
+ * Signal for a single attempt: aborted when the caller cancels or when nothing arrives within the timeout.
+ * touch() restarts the timeout, so a stream only times out when it stalls.
+ */
+const createAttemptSignal = (timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(new GenerationError('timeout', `No response within ${timeoutMs / 1000} s.`)), timeoutMs);
+  };
+  const handleAbort = () => controller.abort(cancelledError());
+
+  if (parent?.aborted) handleAbort();
+  else parent?.addEventListener('abort', handleAbort, { once: true });
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', handleAbort);
+    },
+    // Prefer why we aborted over whatever the provider made of it
+    toError: (error: unknown) => classifyError(controller.signal.aborted ? controller.signal.reason : error),
+  };
+};
+
+const getRetryDelay = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+
+/**
+ * Adds timeouts and retries with exponential backoff for transient failures (rate limits, overloaded
+ * servers, dropped connections, timeouts). Streams are only retried before their first chunk, so a
+ * stream that stalls halfway fails instead of starting over.
+ */
+const withRetries = (generator: ModelGenerator, settings: GeneratorSettings): ModelGenerator => {
+  const timeoutMs = settings.requestTimeoutSeconds * 1000;
+
+  const handleFailure = async (request: GenerationRequest, failure: GenerationError, attempt: number) => {
+    if (!failure.isRetryable || attempt >= settings.maxRetries) throw failure;
+    const delay = getRetryDelay(attempt);
+    request.onRetry?.(attempt + 1, delay, failure);
+    await wait(delay, request.signal);
+  };
+
+  return {
+    ...generator,
+    generateText: async (request) => {
+      for (let attempt = 0; ; attempt++) {
+        const attemptSignal = createAttemptSignal(timeoutMs, request.signal);
+        try {
+          return await generator.generateText({ ...request, signal: attemptSignal.signal });
+        } catch (error) {
+          await handleFailure(request, attemptSignal.toError(error), attempt);
+        } finally {
+          attemptSignal.dispose();
+        }
+      }
+    },
+    streamText: async function* (request) {
+      for (let attempt = 0; ; attempt++) {
+        const attemptSignal = createAttemptSignal(timeoutMs, request.signal);
+        let hasOutput = false;
+        try {
+          for await (const chunk of generator.streamText({ ...request, signal: attemptSignal.signal })) {
+            attemptSignal.touch();
+            hasOutput = true;
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          const failure = attemptSignal.toError(error);
+          if (hasOutput) throw failure;
+          await handleFailure(request, failure, attempt);
+        } finally {
+          attemptSignal.dispose();
+        }
+      }
+    },
+  };
+};
+
+export const createModelGenerator = (settings: GeneratorSettings): ModelGenerator => {
+  let provider: ModelGenerator;
+  switch (settings.provider) {
+    case 'openai':
+      provider = createOpenAICompatibleProvider(settings);
+      break;
+    case 'fixture':
+      provider = createFixtureProvider();
+      break;
+    case 'gemini':
+    default:
+      provider = createGeminiProvider(settings);
+  }
+
+  const generator = withRetries(provider, settings);
+  if (!settings.recordResponses || settings.provider === 'fixture') return generator;
+
+  // Recording live responses lets the fixture provider replay them deterministically later
+  return {
+    ...generator,
+    generateText: async (request) => {
+      const text = await generator.generateText(request);
+      recordResponse(request, text);
+      return text;
+    },
+    streamText: async function* (request) {
+      let text = '';
+      for await (const chunk of generator.streamText(request)) {
+        text += chunk;
+        yield chunk;
+      }
+      recordResponse(request, text);
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import * as THREE from 'three';
+import { GeneratedModel } from '../types';
+import { flattenModel } from './hierarchyService';
+import { getPartBounds } from './primitiveRegistry';
+import { isBooleanTool } from './csgService';
+
+/**
+ * World-space bounds of the model, from the exact bounds of every transformed primitive.
+ * Used for view-only decisions (camera distance, grid spacing); the model itself is never rescaled.
+ */
+export const estimateModelBounds = (model: GeneratedModel): THREE.Box3 => {
+  const bounds = new THREE.Box3();
+  if (!model.parts || model.parts.length === 0) return bounds;
+
+  // Groups have no geometry of their own and are skipped by flattenModel; boolean tools are never drawn
+  flattenModel(model)
+    .filter(({ part }) => !isBooleanTool(part, model.parts))
+    .forEach(({ part, matrix }) => bounds.union(getPartBounds(part, matrix)));
+  return bounds;
+};
+
+/**
+ * Picks a power-of-ten grid spacing so the model spans a readable number of cells.
+ */
+export const getGridCellSize = (modelSize: number) => Math.pow(10, Math.floor(Math.log10(modelSize / 5)));
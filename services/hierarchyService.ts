@@ -0,0 +1,223 @@
+import * as THREE from 'three';
+import { GeneratedModel, ModelPart, ShapeType } from '../types';
+
+export interface PartNode {
+  part: ModelPart;
+  index: number; // Index in the flat model.parts array (build order)
+  children: PartNode[];
+}
+
+export interface FlatPart {
+  part: ModelPart;
+  index: number;
+  matrix: THREE.Matrix4; // World-space matrix of the part's mesh (includes its own scale)
+}
+
+/**
+ * Resolves the effective parent of every part.
+ * Dangling references and cycles are dropped so the offending part becomes a root.
+ */
+export const resolveParents = (parts: ModelPart[]): Map<string, string | undefined> => {
+  const byId = new Map(parts.map(p => [p.id, p]));
+  const parents = new Map<string, string | undefined>();
+
+  parts.forEach(part => {
+    let parentId = part.parentId && byId.has(part.parentId) ? part.parentId : undefined;
+
+    // Walk up the chain; if we come back to ourselves the link is cyclic
+    let cursor = parentId;
+    let steps = 0;
+    while (cursor && steps <= parts.length) {
+      if (cursor === part.id) {
+        parentId = undefined;
+        break;
+      }
+      const next = byId.get(cursor)?.parentId;
+      cursor = next && byId.has(next) ? next : undefined;
+      steps++;
+    }
+
+    parents.set(part.id, parentId);
+  });
+
+  return parents;
+};
+
+/**
+ * Ids of parts that carry a hidden / locked flag themselves or inherit it from an ancestor.
+ */
+export const getInheritedIds = (parts: ModelPart[], flag: 'hidden' | 'locked'): Set<string> => {
+  const byId = new Map(parts.map(p => [p.id, p]));
+  const parents = resolveParents(parts);
+  const ids = new Set<string>();
+
+  parts.forEach(part => {
+    // resolveParents has removed cycles, so the walk ends at a root
+    for (let cursor: ModelPart | undefined = part; cursor; cursor = byId.get(parents.get(cursor.id) ?? '')) {
+      if (cursor[flag]) {
+        ids.add(part.id);
+        return;
+      }
+    }
+  });
+
+  return ids;
+};
+
+/**
+ * Builds the assembly tree from the flat parts list, preserving the original order.
+ */
+export const buildPartTree = (parts: ModelPart[]): PartNode[] => {
+  const parents = resolveParents(parts);
+  const nodes = parts.map((part, index) => ({ part, index, children: [] as PartNode[] }));
+  const nodeById = new Map(nodes.map(n => [n.part.id, n]));
+  const roots: PartNode[] = [];
+
+  nodes.forEach(node => {
+    const parentId = parents.get(node.part.id);
+    const parentNode = parentId ? nodeById.get(parentId) : undefined;
+    if (parentNode && parentNode !== node) {
+      parentNode.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+/**
+ * Local frame passed down to children: position + rotation.
+ * Group nodes also pass their scale, regular parts keep scale for their own mesh
+ * (a Box uses scale as its dimensions, which must not stretch its children).
+ */
+export const getLocalFrameMatrix = (part: ModelPart): THREE.Matrix4 => {
+  const position = new THREE.Vector3(...(part.position || [0, 0, 0]));
+  const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(...(part.rotation || [0, 0, 0])));
+  const scale = part.type === ShapeType.GROUP
+    ? new THREE.Vector3(part.scale?.[0] ?? 1, part.scale?.[1] ?? 1, part.scale?.[2] ?? 1)
+    : new THREE.Vector3(1, 1, 1);
+  return new THREE.Matrix4().compose(position, quaternion, scale);
+};
+
+/**
+ * World frame of a part (all ancestor frames applied).
+ */
+export const getWorldFrameMatrix = (
+  part: ModelPart,
+  partsById: Map<string, ModelPart>,
+  parents: Map<string, string | undefined>
+): THREE.Matrix4 => {
+  const matrix = getLocalFrameMatrix(part);
+  let parentId = parents.get(part.id);
+  while (parentId) {
+    const parent = partsById.get(parentId);
+    if (!parent) break;
+    matrix.premultiply(getLocalFrameMatrix(parent));
+    parentId = parents.get(parentId);
+  }
+  return matrix;
+};
+
+/**
+ * Moves a part under another parent (or to the top level when parentId is undefined) without moving it
+ * in the world: position, rotation and scale are re-expressed in the new parent's frame. Scale the new
+ * parent chain adds or removes is folded into the part's own scale, approximated when combined with rotation.
+ */
+export const reparentPart = (
+  parts: ModelPart[],
+  part: ModelPart,
+  parentId: string | undefined
+): Pick<ModelPart, 'parentId' | 'position' | 'rotation' | 'scale'> => {
+  const partsById = new Map(parts.map(p => [p.id, p]));
+  const parents = resolveParents(parts);
+  const parent = parentId ? partsById.get(parentId) : undefined;
+  const local = (parent ? getWorldFrameMatrix(parent, partsById, parents).invert() : new THREE.Matrix4())
+    .multiply(getWorldFrameMatrix(part, partsById, parents));
+
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  local.decompose(position, quaternion, scale);
+  const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+  // A group's frame already carries its scale; other parts keep theirs for their own mesh
+  if (part.type !== ShapeType.GROUP) scale.multiply(new THREE.Vector3(...part.scale));
+
+  return {
+    parentId,
+    position: position.toArray() as [number, number, number],
+    rotation: [rotation.x, rotation.y, rotation.z],
+    scale: scale.toArray() as [number, number, number],
+  };
+};
+
+/**
+ * Flattens the hierarchy into world-space mesh matrices, skipping group nodes.
+ */
+export const flattenModel = (model: GeneratedModel): FlatPart[] => {
+  const partsById = new Map(model.parts.map(p => [p.id, p]));
+  const parents = resolveParents(model.parts);
+
+  return model.parts
+    .map((part, index) => ({ part, index }))
+    .filter(({ part }) => part.type !== ShapeType.GROUP)
+    .map(({ part, index }) => {
+      const meshScale = new THREE.Matrix4().makeScale(part.scale?.[0] ?? 1, part.scale?.[1] ?? 1, part.scale?.[2] ?? 1);
+      const matrix = getWorldFrameMatrix(part, partsById, parents).multiply(meshScale);
+      return { part, index, matrix };
+    });
+};
+
+/**
+ * Bakes the hierarchy into a flat list of world-space parts (no groups, no parentId).
+ * Non-uniform group scale combined with rotation cannot be represented exactly and is approximated.
+ */
+export const flattenModelParts = (model: GeneratedModel): GeneratedModel => {
+  // Without the groups, parts hidden or locked through a group carry the flag themselves
+  const hiddenIds = getInheritedIds(model.parts, 'hidden');
+  const lockedIds = getInheritedIds(model.parts, 'locked');
+  const parents = resolveParents(model.parts);
+  const isDescendant = (id: string, ancestorId: string) => {
+    for (let cursor = parents.get(id); cursor; cursor = parents.get(cursor)) {
+      if (cursor === ancestorId) return true;
+    }
+    return false;
+  };
+
+  const parts = flattenModel(model).map(({ part, matrix }) => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    matrix.decompose(position, quaternion, scale);
+    const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+
+    const { parentId, ...rest } = part;
+    return {
+      ...rest,
+      position: position.toArray() as [number, number, number],
+      rotation: [rotation.x, rotation.y, rotation.z] as [number, number, number],
+      scale: scale.toArray() as [number, number, number],
+      ...(hiddenIds.has(part.id) ? { hidden: true } : {}),
+      ...(lockedIds.has(part.id) ? { locked: true } : {}),
+    };
+  });
+
+  // Groups are gone, so a cut or union aimed at a group becomes one copy per solid it applied to,
+  // in the tool's place so every target still sees its tools in model order
+  const groupIds = new Set(model.parts.filter(p => p.type === ShapeType.GROUP).map(p => p.id));
+  const isTool = (part: ModelPart) => !!part.operation && !!part.targetId && part.targetId !== part.id && parents.has(part.targetId);
+  const usedIds = new Set(parts.map(p => p.id));
+  const flatParts = parts.flatMap(part => {
+    if (!isTool(part) || !groupIds.has(part.targetId!)) return [part];
+    return parts
+      .filter(target => !isTool(target) && isDescendant(target.id, part.targetId!))
+      .map(target => {
+        let id = `${part.id}_${target.id}`;
+        for (let suffix = 2; usedIds.has(id); suffix++) id = `${part.id}_${target.id}_${suffix}`;
+        usedIds.add(id);
+        return { ...part, id, targetId: target.id };
+      });
+  });
+
+  return { ...model, parts: flatParts };
+};
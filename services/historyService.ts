@@ -0,0 +1,62 @@
+import { GeneratedModel } from '../types';
+import { HISTORY_COALESCE_MS, MAX_HISTORY_ENTRIES } from '../constants';
+
+// One undoable change of the model. Models are immutable, so keeping both sides is cheap
+export interface ModelCommand {
+  label: string; // Shown in the Edit menu, e.g. "Apply changes: taller legs"
+  before: GeneratedModel | null;
+  after: GeneratedModel | null;
+  coalesceKey?: string; // Consecutive commands with the same key merge into one step
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: ModelCommand[]; // Oldest first; the last entry produced the current model
+  future: ModelCommand[]; // Undone commands, the next one to redo last
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+/**
+ * Adds a command that has just been applied. Clears the redo stack, merges it into the previous
+ * command when both share a coalesce key and follow each other closely, and drops the oldest entries past the limit.
+ */
+export const recordCommand = (history: HistoryState, command: ModelCommand): HistoryState => {
+  if (command.before === command.after) return history;
+
+  const last = history.past[history.past.length - 1];
+  if (
+    last &&
+    command.coalesceKey &&
+    last.coalesceKey === command.coalesceKey &&
+    history.future.length === 0 &&
+    command.timestamp - last.timestamp <= HISTORY_COALESCE_MS
+  ) {
+    return { past: [...history.past.slice(0, -1), { ...last, after: command.after, timestamp: command.timestamp }], future: [] };
+  }
+
+  return { past: [...history.past, command].slice(-MAX_HISTORY_ENTRIES), future: [] };
+};
+
+/**
+ * Moves through the history: negative steps undo, positive steps redo.
+ * Returns null when there is nothing to move to.
+ */
+export const travelHistory = (history: HistoryState, steps: number): { history: HistoryState; model: GeneratedModel | null } | null => {
+  const count = steps < 0 ? Math.min(-steps, history.past.length) : Math.min(steps, history.future.length);
+  if (count === 0) return null;
+
+  if (steps < 0) {
+    const undone = history.past.slice(-count);
+    return {
+      history: { past: history.past.slice(0, -count), future: [...history.future, ...undone.reverse()] },
+      model: undone[undone.length - 1].before,
+    };
+  }
+
+  const redone = history.future.slice(-count).reverse();
+  return {
+    history: { past: [...history.past, ...redone], future: history.future.slice(0, -count) },
+    model: redone[redone.length - 1].after,
+  };
+};
@@ -0,0 +1,193 @@
+import * as THREE from 'three';
+import { Dimension, DimensionKind, GeneratedModel, LengthUnit } from '../types';
+import { createUniqueId } from './modelingService';
+
+// A point picked on a rendered mesh. The geometry is the mesh's own, shared with the renderer and never
+// modified; matrix places it in model space
+export interface MeasurePick {
+  point: THREE.Vector3;
+  normal: THREE.Vector3; // Face normal at the point, model space
+  partId: string;
+  geometry: THREE.BufferGeometry;
+  matrix: THREE.Matrix4; // Mesh-local to model space
+}
+
+export interface MeasureTool {
+  kind: DimensionKind;
+  label: string;
+  picks: number; // Picks needed before the dimension is complete
+  hint: string;
+}
+
+export const MEASURE_TOOLS: MeasureTool[] = [
+  { kind: 'distance', label: 'Distance', picks: 2, hint: 'Pick two points' },
+  { kind: 'edge', label: 'Edge length', picks: 1, hint: 'Pick an edge' },
+  { kind: 'angle', label: 'Angle', picks: 3, hint: 'Pick a point, the corner, then another point' },
+  { kind: 'radius', label: 'Radius / diameter', picks: 3, hint: 'Pick three points on a round edge or face' },
+  { kind: 'clearance', label: 'Clearance', picks: 2, hint: 'Pick two parts' },
+];
+
+// Same crease angle as the <Edges> outlines, so the edges that can be picked are the ones that are drawn
+const FEATURE_EDGE_ANGLE = 15;
+
+const toPoint = (v: THREE.Vector3): [number, number, number] => [v.x, v.y, v.z];
+
+/**
+ * Moves a picked point onto a corner of the hit triangle when one is closer than maxDistance,
+ * so distances between corners come out exact. The point and the result are in model space.
+ */
+export const snapToCorner = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4, point: THREE.Vector3, face: THREE.Face, maxDistance: number): THREE.Vector3 => {
+  const position = geometry.getAttribute('position');
+  const corner = new THREE.Vector3();
+  let best: THREE.Vector3 | null = null;
+  [face.a, face.b, face.c].forEach(i => {
+    corner.fromBufferAttribute(position, i).applyMatrix4(matrix);
+    if (corner.distanceTo(point) <= maxDistance && (!best || corner.distanceTo(point) < best.distanceTo(point))) best = corner.clone();
+  });
+  return best ?? point.clone();
+};
+
+/**
+ * The drawn (feature) edge of the geometry closest to the point, in model space.
+ */
+export const findNearestEdge = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4, point: THREE.Vector3): THREE.Line3 | null => {
+  const edges = new THREE.EdgesGeometry(geometry, FEATURE_EDGE_ANGLE);
+  const position = edges.getAttribute('position');
+  const line = new THREE.Line3();
+  const closest = new THREE.Vector3();
+  let best: THREE.Line3 | null = null;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < position.count; i += 2) {
+    line.start.fromBufferAttribute(position, i).applyMatrix4(matrix);
+    line.end.fromBufferAttribute(position, i + 1).applyMatrix4(matrix);
+    const distance = line.closestPointToPoint(point, true, closest).distanceTo(point);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = line.clone();
+    }
+  }
+
+  edges.dispose();
+  return best;
+};
+
+/**
+ * Circle through three points; null when they are (nearly) on one line.
+ */
+export const fitCircle = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): { center: THREE.Vector3, radius: number } | null => {
+  const ab = new THREE.Vector3().subVectors(b, a);
+  const ac = new THREE.Vector3().subVectors(c, a);
+  const normal = new THREE.Vector3().crossVectors(ab, ac);
+  const lengthSq = normal.lengthSq();
+  if (lengthSq <= 1e-12 * ab.lengthSq() * ac.lengthSq()) return null;
+
+  // Circumcenter: a + (|ac|² (n × ab) + |ab|² (ac × n)) / 2|n|²
+  const center = new THREE.Vector3().crossVectors(normal, ab).multiplyScalar(ac.lengthSq())
+    .add(new THREE.Vector3().crossVectors(ac, normal).multiplyScalar(ab.lengthSq()))
+    .divideScalar(2 * lengthSq)
+    .add(a);
+  return { center, radius: center.distanceTo(a) };
+};
+
+/**
+ * Smallest gap between two meshes and the points where it is found. Vertices of each mesh are
+ * measured against the triangles of the other, so edge-to-edge gaps are approximated by the nearest corners.
+ */
+export const measureClearance = (
+  a: THREE.BufferGeometry, aMatrix: THREE.Matrix4,
+  b: THREE.BufferGeometry, bMatrix: THREE.Matrix4
+): { distance: number, from: THREE.Vector3, to: THREE.Vector3 } => {
+  const result = { distance: Infinity, from: new THREE.Vector3(), to: new THREE.Vector3() };
+
+  const getTriangles = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4) => {
+    const position = geometry.getAttribute('position');
+    const index = geometry.index;
+    const count = index ? index.count : position.count;
+    const triangles: { triangle: THREE.Triangle, center: THREE.Vector3, radius: number }[] = [];
+    for (let i = 0; i + 2 < count; i += 3) {
+      const [ia, ib, ic] = [i, i + 1, i + 2].map(j => (index ? index.getX(j) : j));
+      const triangle = new THREE.Triangle(
+        new THREE.Vector3().fromBufferAttribute(position, ia).applyMatrix4(matrix),
+        new THREE.Vector3().fromBufferAttribute(position, ib).applyMatrix4(matrix),
+        new THREE.Vector3().fromBufferAttribute(position, ic).applyMatrix4(matrix)
+      );
+      const center = triangle.getMidpoint(new THREE.Vector3());
+      const radius = Math.max(center.distanceTo(triangle.a), center.distanceTo(triangle.b), center.distanceTo(triangle.c));
+      triangles.push({ triangle, center, radius });
+    }
+    return triangles;
+  };
+
+  const measure = (from: THREE.BufferGeometry, fromMatrix: THREE.Matrix4, to: THREE.BufferGeometry, toMatrix: THREE.Matrix4, swap: boolean) => {
+    const position = from.getAttribute('position');
+    const triangles = getTriangles(to, toMatrix);
+    const vertex = new THREE.Vector3();
+    const closest = new THREE.Vector3();
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(fromMatrix);
+      triangles.forEach(({ triangle, center, radius }) => {
+        // Triangles that cannot beat the current best are skipped without the exact test
+        if (vertex.distanceTo(center) - radius >= result.distance) return;
+        const distance = triangle.closestPointToPoint(vertex, closest).distanceTo(vertex);
+        if (distance < result.distance) {
+          result.distance = distance;
+          (swap ? result.to : result.from).copy(vertex);
+          (swap ? result.from : result.to).copy(closest);
+        }
+      });
+    }
+  };
+
+  measure(a, aMatrix, b, bMatrix, false);
+  measure(b, bMatrix, a, aMatrix, true);
+  return result;
+};
+
+/**
+ * Builds the dimension for a completed set of picks; null when the picks don't define one
+ * (points on a line for a radius, the same part twice for a clearance).
+ */
+export const createDimension = (model: GeneratedModel, kind: DimensionKind, picks: MeasurePick[]): Dimension | null => {
+  const id = createUniqueId('dim_1', new Set(model.dimensions?.map(d => d.id)));
+  const partIds = picks.map(p => p.partId).filter((partId, i, all) => all.indexOf(partId) === i);
+  const [a, b, c] = picks.map(p => p.point);
+
+  switch (kind) {
+    case 'distance':
+      return { id, kind, points: [toPoint(a), toPoint(b)], value: a.distanceTo(b), partIds };
+    case 'edge': {
+      const edge = findNearestEdge(picks[0].geometry, picks[0].matrix, a);
+      return edge ? { id, kind, points: [toPoint(edge.start), toPoint(edge.end)], value: edge.distance(), partIds } : null;
+    }
+    case 'angle':
+      return { id, kind, points: [toPoint(a), toPoint(b), toPoint(c)], value: a.clone().sub(b).angleTo(c.clone().sub(b)), partIds };
+    case 'radius': {
+      const circle = fitCircle(a, b, c);
+      return circle ? { id, kind, points: [toPoint(circle.center), toPoint(a), toPoint(b), toPoint(c)], value: circle.radius, partIds } : null;
+    }
+    case 'clearance': {
+      if (picks[0].partId === picks[1].partId) return null;
+      const { distance, from, to } = measureClearance(picks[0].geometry, picks[0].matrix, picks[1].geometry, picks[1].matrix);
+      return { id, kind, points: [toPoint(from), toPoint(to)], value: distance, partIds };
+    }
+  }
+};
+
+const formatLength = (value: number, units: LengthUnit) => `${Number(value.toPrecision(4))} ${units}`;
+
+/**
+ * Label text of a dimension in the model's unit.
+ */
+export const formatDimension = (dimension: Dimension, units: LengthUnit): string => {
+  switch (dimension.kind) {
+    case 'angle':
+      return `${THREE.MathUtils.radToDeg(dimension.value).toFixed(1)}°`;
+    case 'radius':
+      return `R ${formatLength(dimension.value, units)} · ⌀ ${formatLength(dimension.value * 2, units)}`;
+    case 'clearance':
+      return dimension.value < 1e-6 ? 'Touching / overlapping' : `Gap ${formatLength(dimension.value, units)}`;
+    default:
+      return formatLength(dimension.value, units);
+  }
+};
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { GeneratedModel, LengthUnit, ModelPart, PrimitiveType, ShapeType } from '../types';
+import { DEFAULT_UNITS, NEW_PART_COLOR, UNIT_TO_MM } from '../constants';
+import { getPartBounds, getPrimitive } from './primitiveRegistry';
+import { estimateModelBounds, getGridCellSize } from './geometryService';
+
+// Parts copied with Ctrl+C, kept until the next copy so they can be pasted into another model
+export interface PartClipboard {
+  parts: ModelPart[]; // Selected parts with their children and the boolean tools aimed at them
+  units: LengthUnit; // Unit of the model they were copied from
+}
+
+/**
+ * Returns id unchanged when it is free, otherwise the next free numbered variant ("leg_2" → "leg_3").
+ */
+export const createUniqueId = (id: string, takenIds: Set<string>): string => {
+  if (!takenIds.has(id)) return id;
+  const base = id.replace(/_\d+$/, '');
+  let n = 2;
+  while (takenIds.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+};
+
+/**
+ * A new part of the given type, about `size` across, with its origin at [0, 0, 0].
+ * Lengths scale with size so the part fits the model it is added to; counts and angles keep their defaults.
+ */
+export const createPart = (type: PrimitiveType, size: number, takenIds: Set<string>): ModelPart => {
+  const definition = getPrimitive(type);
+  const half = size / 2;
+  const part: ModelPart = {
+    id: createUniqueId(`${type}_1`, takenIds),
+    type,
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: type === ShapeType.BOX ? [size, size, size] : [1, 1, 1],
+    color: NEW_PART_COLOR,
+    description: `New ${definition?.label ?? type}`,
+  };
+
+  if (definition && definition.args.length > 0) {
+    part.args = definition.args.map(spec => (spec.kind === 'length' ? spec.default * half : spec.default));
+  }
+
+  // A square plate to extrude, a vase-like section to revolve
+  if (definition?.usesProfile) {
+    part.profile = type === ShapeType.REVOLVE
+      ? [[0, 0], [0.8 * half, 0], [half, 1.2 * half], [0.6 * half, size], [0, size]]
+      : [[-half, -half], [half, -half], [half, half], [-half, half]];
+  }
+
+  return part;
+};
+
+/**
+ * Fields that turn a part into another primitive of about the same size. The new shape is sized like
+ * createPart to the largest extent of the old mesh, with the old scale folded in; a box takes the old extents exactly.
+ */
+export const changePartType = (part: ModelPart, type: PrimitiveType): Pick<ModelPart, 'type' | 'args' | 'scale'> => {
+  const extents = getPartBounds(part, new THREE.Matrix4().makeScale(...part.scale)).getSize(new THREE.Vector3());
+  const size = Math.max(extents.x, extents.y, extents.z) || 1;
+  const { args } = createPart(type, size, new Set());
+  return {
+    type,
+    args,
+    scale: type === ShapeType.BOX ? extents.toArray().map(v => v || size) as [number, number, number] : [1, 1, 1],
+  };
+};
+
+/**
+ * Step used to offset duplicates and pasted copies: one grid cell of the model, along X.
+ */
+export const getCopyOffset = (model: GeneratedModel | null): [number, number, number] => {
+  const size = model ? estimateModelBounds(model).getSize(new THREE.Vector3()) : new THREE.Vector3();
+  return [getGridCellSize(Math.max(size.x, size.y, size.z)) || 1, 0, 0];
+};
+
+/**
+ * Copies parts into a model under fresh ids. References between the copied parts follow the copies;
+ * references to parts outside the copy are kept when the target model has them and dropped otherwise
+ * (a tool without a target becomes a plain solid). The top-level copies are moved by offset in their parent's frame.
+ */
+export const cloneParts = (model: GeneratedModel | null, parts: ModelPart[], offset: [number, number, number]): ModelPart[] => {
+  const existingIds = new Set(model?.parts.map(p => p.id));
+  const takenIds = new Set(existingIds);
+  const idMap = new Map<string, string>();
+  parts.forEach(part => {
+    const id = createUniqueId(part.id, takenIds);
+    takenIds.add(id);
+    idMap.set(part.id, id);
+  });
+
+  const resolve = (ref: string | undefined) => (ref === undefined ? undefined : idMap.get(ref) ?? (existingIds.has(ref) ? ref : undefined));
+
+  return parts.map(part => {
+    const { parentId: _parentId, operation, targetId: _targetId, ...rest } = part;
+    const parentId = resolve(part.parentId);
+    const targetId = resolve(part.targetId);
+    const isTopLevel = !part.parentId || !idMap.has(part.parentId);
+
+    return {
+      ...rest,
+      id: idMap.get(part.id)!,
+      position: isTopLevel ? part.position.map((v, i) => v + offset[i]) as [number, number, number] : part.position,
+      ...(parentId ? { parentId } : {}),
+      ...(operation && targetId ? { operation, targetId } : {}),
+    };
+  });
+};
+
+/**
+ * Re-expresses parts in another unit so they keep their physical size. Positions, lengths in args,
+ * profiles and box dimensions are converted; scale factors of other parts are unitless and stay.
+ */
+export const convertPartUnits = (parts: ModelPart[], from: LengthUnit = DEFAULT_UNITS, to: LengthUnit = DEFAULT_UNITS): ModelPart[] => {
+  const factor = UNIT_TO_MM[from] / UNIT_TO_MM[to];
+  if (factor === 1) return parts;
+
+  // Profile vertices are [x, y] or [x, y, bulge]; the bulge is a ratio
+  const convertLoop = (loop: number[][]) => loop.map(([x, y, ...rest]) => [x * factor, y * factor, ...rest]);
+
+  return parts.map(part => {
+    const definition = getPrimitive(part.type);
+    return {
+      ...part,
+      position: part.position.map(v => v * factor) as [number, number, number],
+      ...(part.type === ShapeType.BOX ? { scale: part.scale.map(v => v * factor) as [number, number, number] } : {}),
+      ...(part.args ? { args: part.args.map((v, i) => (definition?.args[i]?.kind === 'length' ? v * factor : v)) } : {}),
+      ...(part.profile ? { profile: convertLoop(part.profile) } : {}),
+      ...(part.holes ? { holes: part.holes.map(convertLoop) } : {}),
+    };
+  });
+};
@@ -0,0 +1,128 @@
+import { LengthUnit, ModelPart } from "../types";
+import { UNIT_TO_MM } from "../constants";
+
+export interface StreamProgress {
+  partsReceived: number;
+  expectedParts?: number; // Announced by the model's "partCount" field, when present
+  name?: string;
+  units?: LengthUnit;
+}
+
+export type PartListener = (part: ModelPart, progress: StreamProgress) => void;
+type RawPartListener = (raw: unknown, index: number, progress: StreamProgress) => void;
+
+export interface PartStreamParser {
+  push: (chunk: string) => void;
+  getProgress: () => StreamProgress;
+}
+
+/**
+ * Incremental scanner for a streamed model response.
+ * Tracks JSON nesting across chunks and hands every element of the top-level
+ * "parts" array to the listener as soon as its closing brace arrives.
+ * Elements are passed on as parsed, unchecked JSON, with their position in the array.
+ * Positions count every element, including ones that are skipped here (malformed or not objects),
+ * so they match the indices of the final parse.
+ * Header fields (name, units, partCount) are picked up as they stream past.
+ */
+export const createPartStreamParser = (onPart: RawPartListener): PartStreamParser => {
+  let buffer = '';
+  let cursor = 0;
+  const stack: string[] = [];
+  let inString = false;
+  let isEscaped = false;
+  let stringStart = -1;
+  let lastString = '';
+  let lastKey = '';
+  let partsDepth = -1; // Stack depth inside the parts array, -1 when not in it
+  let partStart = -1;
+  let elementIndex = 0; // Position in the parts array of the element being scanned
+  const progress: StreamProgress = { partsReceived: 0 };
+
+  const readHeader = (text: string) => {
+    if (progress.name === undefined) {
+      const match = text.match(/"name"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+      if (match) progress.name = JSON.parse(`"${match[1]}"`);
+    }
+    if (progress.units === undefined) {
+      const match = text.match(/"units"\s*:\s*"(\w+)"/);
+      if (match && match[1] in UNIT_TO_MM) progress.units = match[1] as LengthUnit;
+    }
+    if (progress.expectedParts === undefined) {
+      const match = text.match(/"partCount"\s*:\s*(\d+)/);
+      if (match) progress.expectedParts = parseInt(match[1], 10) || undefined;
+    }
+  };
+
+  const emitPart = (text: string) => {
+    let part: unknown;
+    try {
+      // Same leniency as the final parse: LLMs like trailing commas
+      part = JSON.parse(text.replace(/,(\s*[}\]])/g, '$1'));
+    } catch {
+      // A malformed part is left for the final parse to report
+      return;
+    }
+    progress.partsReceived++;
+    onPart(part, elementIndex, { ...progress });
+  };
+
+  const push = (chunk: string) => {
+    buffer += chunk;
+
+    for (; cursor < buffer.length; cursor++) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (isEscaped) isEscaped = false;
+        else if (char === '\\') isEscaped = true;
+        else if (char === '"') {
+          inString = false;
+          lastString = buffer.slice(stringStart + 1, cursor);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          inString = true;
+          stringStart = cursor;
+          break;
+        case ':':
+          if (stack[stack.length - 1] === '{') lastKey = lastString;
+          break;
+        case ',':
+          if (stack.length === partsDepth) elementIndex++;
+          break;
+        case '{':
+          if (stack.length === partsDepth && partStart === -1) partStart = cursor;
+          stack.push(char);
+          break;
+        case '[':
+          stack.push(char);
+          // Only the root object's "parts" array holds parts; nested arrays (holes, profile) never match
+          if (partsDepth === -1 && stack.length === 2 && lastKey === 'parts') {
+            readHeader(buffer.slice(0, cursor));
+            partsDepth = stack.length;
+          }
+          break;
+        case '}':
+          stack.pop();
+          if (partStart !== -1 && stack.length === partsDepth) {
+            emitPart(buffer.slice(partStart, cursor + 1));
+            partStart = -1;
+          }
+          break;
+        case ']':
+          if (stack.length === partsDepth) partsDepth = 0; // Parts done; 0 never matches a depth again
+          stack.pop();
+          break;
+      }
+    }
+
+    // Header fields may also follow the parts array
+    if (partsDepth === 0) readHeader(buffer);
+  };
+
+  return { push, getProgress: () => ({ ...progress }) };
+};
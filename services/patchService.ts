@@ -0,0 +1,88 @@
+import { GeneratedModel, ModelPart, ModelPatch, PartChange } from '../types';
+
+/**
+ * Expands a list of removed ids with everything that cannot survive without them:
+ * parts nested below a removed part and boolean tools that target one.
+ */
+export const getRemovalSet = (parts: ModelPart[], ids: string[]): Set<string> => {
+  const removed = new Set(ids.filter(id => parts.some(p => p.id === id)));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    parts.forEach(part => {
+      if (removed.has(part.id)) return;
+      if ((part.parentId && removed.has(part.parentId)) || (part.targetId && removed.has(part.targetId))) {
+        removed.add(part.id);
+        changed = true;
+      }
+    });
+  }
+
+  return removed;
+};
+
+/**
+ * Names of the fields a change actually alters on the given part.
+ */
+export const getChangedFields = (part: ModelPart, change: PartChange): string[] =>
+  (Object.keys(change) as (keyof ModelPart)[])
+    .filter(key => key !== 'id')
+    .filter(key => JSON.stringify(change[key]) !== JSON.stringify(part[key]));
+
+/**
+ * Applies a reviewed change set. Order: remove, then modify, then add.
+ * Changes to unknown ids and additions that reuse an existing id are skipped.
+ */
+export const applyModelPatch = (model: GeneratedModel, patch: ModelPatch): GeneratedModel => {
+  const removed = getRemovalSet(model.parts, patch.removed);
+  const changesById = new Map(patch.modified.map(change => [change.id, change]));
+
+  const parts = model.parts
+    .filter(part => !removed.has(part.id))
+    .map(part => {
+      const change = changesById.get(part.id);
+      return change ? { ...part, ...change, id: part.id } : part;
+    });
+
+  const existingIds = new Set(parts.map(p => p.id));
+  patch.added.forEach(part => {
+    if (existingIds.has(part.id)) {
+      console.warn(`Patch adds duplicate part id "${part.id}", skipped.`);
+      return;
+    }
+    existingIds.add(part.id);
+    parts.push(part);
+  });
+
+  return { ...model, name: patch.name || model.name, parts };
+};
+
+/**
+ * Applies direct edits made in the viewport or inspector to existing parts.
+ */
+export const applyPartChanges = (model: GeneratedModel, changes: PartChange[]): GeneratedModel =>
+  applyModelPatch(model, { summary: '', added: [], removed: [], modified: changes });
+
+/**
+ * Gives a part a new id and updates the parts that refer to it as parent or boolean target,
+ * and the saved dimensions measured on it.
+ * Returns the model unchanged when the new id is empty or already taken.
+ */
+export const renamePart = (model: GeneratedModel, id: string, newId: string): GeneratedModel => {
+  if (!newId || model.parts.some(p => p.id === newId)) return model;
+  return {
+    ...model,
+    parts: model.parts.map(part => ({
+      ...part,
+      id: part.id === id ? newId : part.id,
+      ...(part.parentId === id ? { parentId: newId } : {}),
+      ...(part.targetId === id ? { targetId: newId } : {}),
+    })),
+    ...(model.dimensions ? {
+      dimensions: model.dimensions.map(dimension => (dimension.partIds?.includes(id)
+        ? { ...dimension, partIds: dimension.partIds.map(partId => (partId === id ? newId : partId)) }
+        : dimension)),
+    } : {}),
+  };
+};
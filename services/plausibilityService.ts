@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import { GeneratedModel, ImageAttachment, PlausibilityFinding } from '../types';
+import { DEFAULT_UNITS } from '../constants';
+import { flattenModel } from './hierarchyService';
+import { isBooleanTool } from './csgService';
+import { getPartBounds } from './primitiveRegistry';
+import { generate3DModel, StyledRequestOptions } from './generationService';
+import { ModelGenerator } from './generatorRegistry';
+import { ValidatedModel } from './validationService';
+
+interface SolidBounds {
+  id: string;
+  box: THREE.Box3;
+}
+
+// Thresholds relative to the model size, so they work in any unit
+const CONTACT_TOLERANCE = 0.002; // Gap still counted as touching
+const GROUND_GAP_LIMIT = 0.03; // Bottoms this close above the ground were probably meant to stand on it
+const BURIED_RATIO = 0.6; // Share of the smaller part's volume inside another part
+
+const toRegion = (box: THREE.Box3): PlausibilityFinding['region'] => ({
+  min: box.min.toArray() as [number, number, number],
+  max: box.max.toArray() as [number, number, number],
+});
+
+const getVolume = (box: THREE.Box3) => {
+  const size = box.getSize(new THREE.Vector3());
+  return size.x * size.y * size.z;
+};
+
+const formatLength = (value: number) => Number(value.toPrecision(3));
+
+/**
+ * World-space bounds of every solid (groups and boolean tools excluded).
+ * Boxes are the exact bounds of the rotated primitives, so rotated parts stay tight.
+ */
+const getSolidBounds = (model: GeneratedModel): SolidBounds[] =>
+  flattenModel(model)
+    .filter(({ part }) => !isBooleanTool(part, model.parts))
+    .map(({ part, matrix }) => ({ id: part.id, box: getPartBounds(part, matrix) }))
+    .filter(({ box }) => !box.isEmpty());
+
+/**
+ * Checks whether the model could physically stand: every part connected to one structure
+ * that rests on the ground (its lowest point), nothing hovering just above the ground and
+ * no part buried inside another. Works on bounding boxes, so findings are a conservative hint.
+ */
+export const analyzePlausibility = (model: GeneratedModel): PlausibilityFinding[] => {
+  const solids = getSolidBounds(model);
+  if (solids.length === 0) return [];
+
+  const modelBox = solids.reduce((box, solid) => box.union(solid.box), new THREE.Box3());
+  const modelSize = modelBox.getSize(new THREE.Vector3());
+  const tolerance = Math.max(modelSize.x, modelSize.y, modelSize.z) * CONTACT_TOLERANCE;
+  const ground = modelBox.min.y;
+  const units = model.units ?? DEFAULT_UNITS;
+  const findings: PlausibilityFinding[] = [];
+
+  // Contact graph via union-find over touching boxes
+  const root = solids.map((_, i) => i);
+  const find = (i: number): number => (root[i] === i ? i : (root[i] = find(root[i])));
+  const expanded = solids.map(({ box }) => box.clone().expandByScalar(tolerance));
+
+  for (let i = 0; i < solids.length; i++) {
+    for (let j = i + 1; j < solids.length; j++) {
+      if (expanded[i].intersectsBox(solids[j].box)) root[find(i)] = find(j);
+
+      // Interpenetration: most of the smaller part sits inside the other one
+      const overlap = solids[i].box.clone().intersect(solids[j].box);
+      const smallerVolume = Math.min(getVolume(solids[i].box), getVolume(solids[j].box));
+      if (!overlap.isEmpty() && smallerVolume > 0 && getVolume(overlap) / smallerVolume > BURIED_RATIO) {
+        findings.push({
+          kind: 'interpenetration',
+          partIds: [solids[i].id, solids[j].id],
+          message: `"${solids[i].id}" and "${solids[j].id}" overlap by ${Math.round((getVolume(overlap) / smallerVolume) * 100)}% of the smaller part`,
+          region: toRegion(overlap),
+        });
+      }
+    }
+  }
+
+  const islands = new Map<number, SolidBounds[]>();
+  solids.forEach((solid, i) => {
+    const key = find(i);
+    islands.set(key, [...(islands.get(key) ?? []), solid]);
+  });
+
+  const islandList = Array.from(islands.values()).map(members => ({
+    members,
+    box: members.reduce((box, solid) => box.union(solid.box), new THREE.Box3()),
+  }));
+  const touchesGround = (box: THREE.Box3) => box.min.y - ground <= tolerance;
+
+  // The main structure is the largest island standing on the ground
+  const main = islandList
+    .filter(island => touchesGround(island.box))
+    .sort((a, b) => b.members.length - a.members.length)[0];
+
+  islandList.forEach(island => {
+    if (island === main) return;
+    const partIds = island.members.map(solid => solid.id);
+    const isSingle = partIds.length === 1;
+    const label = isSingle ? `"${partIds[0]}"` : `${partIds.length} parts (${partIds.slice(0, 3).join(', ')}${partIds.length > 3 ? ', …' : ''})`;
+    const height = island.box.min.y - ground;
+
+    findings.push(touchesGround(island.box)
+      ? { kind: 'disconnected', partIds, message: `${label} ${isSingle ? 'is' : 'are'} not connected to the main structure`, region: toRegion(island.box) }
+      : { kind: 'floating', partIds, message: `${label} ${isSingle ? 'floats' : 'float'} ${formatLength(height)} ${units} above the ground with no support`, region: toRegion(island.box) });
+  });
+
+  // Parts that almost reach the ground, like a leg that is slightly too short
+  if (main) {
+    main.members.forEach(({ id, box }) => {
+      const gap = box.min.y - ground;
+      if (gap > tolerance && gap <= modelSize.y * GROUND_GAP_LIMIT) {
+        findings.push({
+          kind: 'ground-gap',
+          partIds: [id],
+          message: `"${id}" stops ${formatLength(gap)} ${units} short of the ground`,
+          region: toRegion(new THREE.Box3(new THREE.Vector3(box.min.x, ground, box.min.z), new THREE.Vector3(box.max.x, box.min.y, box.max.z))),
+        });
+      }
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * Turns findings into a prompt asking the generator for a corrected version of the model.
+ */
+export const buildCorrectionPrompt = (description: string, model: GeneratedModel, findings: PlausibilityFinding[]) => `
+Original request: ${description || "Model the object shown in the reference image(s)."}
+
+Your previous model:
+${JSON.stringify(model)}
+
+It is not physically plausible:
+${findings.map(finding => `- [${finding.kind}] ${finding.message}`).join('\n')}
+
+Return the complete corrected model. Keep the design, ids and units; move or resize parts so that every part is connected, the object rests on the ground and no part is buried inside another.`;
+
+export interface CorrectionResult extends ValidatedModel {
+  findings: PlausibilityFinding[];
+  rounds: number; // Correction requests made
+}
+
+/**
+ * Bounded fix-up loop: asks the generator to correct the model while findings remain.
+ * A round that does not reduce the number of findings is discarded and ends the loop.
+ */
+export const correctPlausibility = async (
+  description: string,
+  images: ImageAttachment[],
+  initial: ValidatedModel,
+  generator: ModelGenerator,
+  maxRounds: number,
+  onRound?: (round: number, findings: PlausibilityFinding[]) => void,
+  options: StyledRequestOptions = {}
+): Promise<CorrectionResult> => {
+  let best: CorrectionResult = { ...initial, findings: analyzePlausibility(initial.model), rounds: 0 };
+
+  for (let round = 1; round <= maxRounds && best.findings.length > 0; round++) {
+    onRound?.(round, best.findings);
+    const candidate = await generate3DModel(buildCorrectionPrompt(description, best.model, best.findings), images, generator, options);
+    const findings = analyzePlausibility(candidate.model);
+
+    if (findings.length >= best.findings.length) {
+      return { ...best, rounds: round };
+    }
+    best = { ...candidate, findings, rounds: round };
+  }
+
+  return best;
+};
@@ -0,0 +1,236 @@
+import * as THREE from 'three';
+import { ModelPart, PrimitiveType, ShapeType } from '../types';
+import { SHAPE_LABELS } from '../constants';
+import { createExtrudeGeometry, createRevolveGeometry } from './profileService';
+
+export type ArgKind = 'length' | 'count' | 'angle';
+
+export interface ArgSpec {
+  name: string; // Shown to the generator, e.g. "radiusTop"
+  kind: ArgKind; // Decides how the validator repairs the value
+  default: number; // Used when the arg is missing or 0
+}
+
+/**
+ * Everything the app needs to know about one primitive type. Renderer, exporter, CSG, bounds,
+ * validator and the generation prompt all read from here.
+ */
+export interface PrimitiveDefinition {
+  type: PrimitiveType;
+  label: string;
+  args: ArgSpec[]; // Meaning of each positional entry of part.args
+  description: string; // How the generator should use the primitive, after its arg list
+  usesProfile?: boolean; // Built from part.profile, which must have at least 3 vertices
+  allowsHoles?: boolean; // part.holes are cut through the profile
+  // Mesh-local geometry before the part's scale. Omitted for transform-only nodes
+  createGeometry?: (part: ModelPart, args: number[]) => THREE.BufferGeometry;
+  // Bounds of the mesh under matrix (which includes the part's scale). Defaults to measuring the built geometry
+  getBounds?: (part: ModelPart, args: number[], matrix: THREE.Matrix4) => THREE.Box3;
+  // Args after scaling the primitive by factor along its local axes, or null when only part.scale can express it
+  resize?: (args: number[], factor: [number, number, number]) => number[] | null;
+}
+
+const primitives = new Map<PrimitiveType, PrimitiveDefinition>();
+
+/**
+ * Adds a primitive type. Plugins call this once at startup; the type is then accepted by the validator,
+ * offered to the generator and rendered like any built-in shape.
+ */
+export const registerPrimitive = (definition: PrimitiveDefinition) => {
+  if (primitives.has(definition.type)) {
+    throw new Error(`Primitive "${definition.type}" is already registered`);
+  }
+  primitives.set(definition.type, definition);
+};
+
+export const getPrimitive = (type: PrimitiveType): PrimitiveDefinition | undefined => primitives.get(type);
+
+export const getPrimitives = (): PrimitiveDefinition[] => Array.from(primitives.values());
+
+/**
+ * Positional args with defaults filled in for missing or zero entries.
+ */
+export const resolveArgs = (definition: PrimitiveDefinition, part: ModelPart): number[] =>
+  definition.args.map((spec, i) => part.args?.[i] || spec.default);
+
+// --- Exact bounds of transformed primitives ---
+
+// World-space half extent along `row` of the local axes in `cols`, each scaled by the matrix
+const axisExtent = (matrix: THREE.Matrix4, row: number, cols: number[]) =>
+  Math.sqrt(cols.reduce((sum, col) => sum + matrix.elements[col * 4 + row] ** 2, 0));
+
+const boundsAround = (center: THREE.Vector3, halfSize: (row: number) => number) => {
+  const half = new THREE.Vector3(halfSize(0), halfSize(1), halfSize(2));
+  return new THREE.Box3(center.clone().sub(half), center.clone().add(half));
+};
+
+// Vertices of a mesh ring in the local XZ plane at height y, as built by CylinderGeometry
+const ringBounds = (matrix: THREE.Matrix4, y: number, radius: number, segments: number) => {
+  const bounds = new THREE.Box3();
+  for (let i = 0; i < segments; i++) {
+    const theta = (i / segments) * Math.PI * 2;
+    bounds.expandByPoint(new THREE.Vector3(radius * Math.sin(theta), y, radius * Math.cos(theta)).applyMatrix4(matrix));
+  }
+  return bounds;
+};
+
+const measureGeometry = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4) => {
+  geometry.applyMatrix4(matrix);
+  geometry.computeBoundingBox();
+  const bounds = geometry.boundingBox!.clone();
+  geometry.dispose();
+  return bounds;
+};
+
+const isSame = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+// --- Built-in primitives ---
+
+const BUILT_IN_PRIMITIVES: PrimitiveDefinition[] = [
+  {
+    type: ShapeType.BOX,
+    label: SHAPE_LABELS[ShapeType.BOX],
+    args: [],
+    description: "Use 'scale' to set dimensions [width, height, depth]. args can be empty.",
+    createGeometry: () => new THREE.BoxGeometry(1, 1, 1),
+    getBounds: (_part, _args, matrix) =>
+      boundsAround(new THREE.Vector3().setFromMatrixPosition(matrix), row =>
+        0.5 * [0, 1, 2].reduce((sum, col) => sum + Math.abs(matrix.elements[col * 4 + row]), 0)),
+  },
+  {
+    type: ShapeType.SPHERE,
+    label: SHAPE_LABELS[ShapeType.SPHERE],
+    args: [{ name: 'radius', kind: 'length', default: 1 }],
+    description: "Balls, knobs and rounded ends.",
+    createGeometry: (_part, [radius]) => new THREE.SphereGeometry(radius, 32, 24),
+    resize: ([radius], [x, y, z]) => (isSame(x, y) && isSame(x, z) ? [radius * x] : null),
+    getBounds: (_part, [radius], matrix) =>
+      boundsAround(new THREE.Vector3().setFromMatrixPosition(matrix), row => radius * axisExtent(matrix, row, [0, 1, 2])),
+  },
+  {
+    type: ShapeType.CYLINDER,
+    label: SHAPE_LABELS[ShapeType.CYLINDER],
+    args: [
+      { name: 'radiusTop', kind: 'length', default: 1 },
+      { name: 'radiusBottom', kind: 'length', default: 1 },
+      { name: 'height', kind: 'length', default: 1 },
+      { name: 'segments', kind: 'count', default: 32 },
+    ],
+    description: "Axis along Y. Segments ~32, fewer for faceted shapes.",
+    createGeometry: (_part, [radiusTop, radiusBottom, height, segments]) =>
+      new THREE.CylinderGeometry(radiusTop, radiusBottom, height, segments),
+    resize: ([radiusTop, radiusBottom, height, segments], [x, y, z]) =>
+      (isSame(x, z) ? [radiusTop * x, radiusBottom * x, height * y, segments] : null),
+    getBounds: (_part, [radiusTop, radiusBottom, height, segments], matrix) =>
+      ringBounds(matrix, height / 2, radiusTop, segments).union(ringBounds(matrix, -height / 2, radiusBottom, segments)),
+  },
+  {
+    type: ShapeType.CONE,
+    label: SHAPE_LABELS[ShapeType.CONE],
+    args: [
+      { name: 'radius', kind: 'length', default: 1 },
+      { name: 'height', kind: 'length', default: 1 },
+      { name: 'segments', kind: 'count', default: 32 },
+    ],
+    description: "Axis along Y, tip pointing up. For a truncated cone use a cylinder with two radii.",
+    createGeometry: (_part, [radius, height, segments]) => new THREE.ConeGeometry(radius, height, segments),
+    resize: ([radius, height, segments], [x, y, z]) => (isSame(x, z) ? [radius * x, height * y, segments] : null),
+    getBounds: (_part, [radius, height, segments], matrix) =>
+      ringBounds(matrix, -height / 2, radius, segments).expandByPoint(new THREE.Vector3(0, height / 2, 0).applyMatrix4(matrix)),
+  },
+  {
+    type: ShapeType.TORUS,
+    label: SHAPE_LABELS[ShapeType.TORUS],
+    args: [
+      { name: 'radius', kind: 'length', default: 1 },
+      { name: 'tube', kind: 'length', default: 0.4 },
+      { name: 'radialSegments', kind: 'count', default: 24 },
+      { name: 'tubularSegments', kind: 'count', default: 64 },
+    ],
+    description: "Ring lying in the XY plane (hole along Z). Rotate by PI/2 around X to lay it flat.",
+    createGeometry: (_part, [radius, tube, radialSegments, tubularSegments]) =>
+      new THREE.TorusGeometry(radius, tube, radialSegments, tubularSegments),
+    resize: ([radius, tube, radialSegments, tubularSegments], [x, y, z]) =>
+      (isSame(x, y) && isSame(x, z) ? [radius * x, tube * x, radialSegments, tubularSegments] : null),
+    // The centre circle swept by a ball of the tube radius
+    getBounds: (_part, [radius, tube], matrix) =>
+      boundsAround(new THREE.Vector3().setFromMatrixPosition(matrix), row =>
+        radius * axisExtent(matrix, row, [0, 1]) + tube * axisExtent(matrix, row, [0, 1, 2])),
+  },
+  {
+    type: ShapeType.ICOSAHEDRON,
+    label: SHAPE_LABELS[ShapeType.ICOSAHEDRON],
+    args: [{ name: 'radius', kind: 'length', default: 1 }],
+    description: "Faceted stones, gems and low-poly rounded shapes.",
+    createGeometry: (_part, [radius]) => new THREE.IcosahedronGeometry(radius, 0),
+    resize: ([radius], [x, y, z]) => (isSame(x, y) && isSame(x, z) ? [radius * x] : null),
+  },
+  {
+    type: ShapeType.EXTRUDE,
+    label: SHAPE_LABELS[ShapeType.EXTRUDE],
+    args: [{ name: 'depth', kind: 'length', default: 1 }],
+    description: "Use for brackets, plates, L/U/I-profile beams. 'profile' is a closed 2D outline in the XY plane, pushed along Z by depth. Add 'holes' for cut-outs.",
+    usesProfile: true,
+    allowsHoles: true,
+    // Profile (with holes) is triangulated by ExtrudeGeometry
+    createGeometry: part => createExtrudeGeometry(part),
+    // Only the depth is an arg; stretching the outline stays a scale
+    resize: ([depth], [x, y, z]) => (isSame(x, 1) && isSame(y, 1) ? [depth * z] : null),
+  },
+  {
+    type: ShapeType.REVOLVE,
+    label: SHAPE_LABELS[ShapeType.REVOLVE],
+    args: [
+      { name: 'angleRadians', kind: 'angle', default: Math.PI * 2 },
+      { name: 'segments', kind: 'count', default: 48 },
+    ],
+    description: "Use for bottles, vases, knobs, turned parts. 'profile' is the half cross-section with x = radius (>= 0), y = height. An angle of 6.283 is a full turn.",
+    usesProfile: true,
+    createGeometry: part => createRevolveGeometry(part),
+  },
+  {
+    type: ShapeType.GROUP,
+    label: SHAPE_LABELS[ShapeType.GROUP],
+    args: [],
+    description: "No geometry. Parent of a sub-assembly; its transform (including scale) applies to its children.",
+  },
+];
+
+BUILT_IN_PRIMITIVES.forEach(registerPrimitive);
+
+/**
+ * Builds the mesh-local geometry of a part (before its scale is applied).
+ * Unknown types and transform-only nodes get a unit box so callers never have to special-case them.
+ */
+export const createPartGeometry = (part: ModelPart): THREE.BufferGeometry => {
+  const definition = getPrimitive(part.type);
+  return definition?.createGeometry ? definition.createGeometry(part, resolveArgs(definition, part)) : new THREE.BoxGeometry(1, 1, 1);
+};
+
+/**
+ * Scales a part along its local axes. Primitives that can express the change in their args
+ * (a taller cylinder, a bigger sphere) are resized; anything else multiplies part.scale.
+ */
+export const resizePart = (part: ModelPart, factor: [number, number, number]): Pick<ModelPart, 'args' | 'scale'> => {
+  const definition = getPrimitive(part.type);
+  const args = definition?.resize?.(resolveArgs(definition, part), factor);
+  if (args) return { args, scale: part.scale };
+  return { args: part.args, scale: part.scale.map((s, i) => s * factor[i]) as [number, number, number] };
+};
+
+/**
+ * World-space bounds of a part's mesh. matrix is the full mesh matrix, scale included.
+ */
+export const getPartBounds = (part: ModelPart, matrix: THREE.Matrix4): THREE.Box3 => {
+  const definition = getPrimitive(part.type);
+  if (definition?.getBounds) return definition.getBounds(part, resolveArgs(definition, part), matrix);
+  return measureGeometry(createPartGeometry(part), matrix);
+};
+
+/**
+ * Per-primitive guidance for the generation prompt, one line each. Lines start with the type value
+ * the schema accepts, so the model is never told a name it may not emit.
+ */
+export const describePrimitives = (): string[] =>
+  getPrimitives().map(({ type, label, args, description }) =>
+    `"${type}" (${label}): ${args.length > 0 ? `[${args.map(arg => arg.name).join(', ')}]. ` : ''}${description}`);
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import { ModelPart } from '../types';
+
+// Number of straight segments used to approximate a bulge arc
+const ARC_SEGMENTS = 12;
+
+export interface ProfileBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Expands a profile into a polyline.
+ * Each vertex is [x, y] or [x, y, bulge]; a non-zero bulge (tan of a quarter of the included angle,
+ * positive = counter-clockwise) turns the segment to the next vertex into a circular arc.
+ */
+export const profileToPoints = (profile: number[][], closed = true): THREE.Vector2[] => {
+  const vertices = profile.filter(v => v.length >= 2 && Number.isFinite(v[0]) && Number.isFinite(v[1]));
+  const points: THREE.Vector2[] = [];
+
+  vertices.forEach((vertex, i) => {
+    const start = new THREE.Vector2(vertex[0], vertex[1]);
+    points.push(start);
+
+    const bulge = vertex[2] || 0;
+    const isLast = i === vertices.length - 1;
+    if (!bulge || (isLast && !closed)) return;
+
+    const nextVertex = vertices[(i + 1) % vertices.length];
+    const end = new THREE.Vector2(nextVertex[0], nextVertex[1]);
+    const chord = start.distanceTo(end);
+    if (chord === 0) return;
+
+    // Center sits on the chord's perpendicular bisector
+    const mid = start.clone().add(end).multiplyScalar(0.5);
+    const normal = new THREE.Vector2(-(end.y - start.y), end.x - start.x).divideScalar(chord);
+    const center = mid.add(normal.multiplyScalar((chord * (1 - bulge * bulge)) / (4 * bulge)));
+    const radius = (chord * (1 + bulge * bulge)) / (4 * Math.abs(bulge));
+    const sweep = 4 * Math.atan(bulge);
+    const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+
+    for (let k = 1; k < ARC_SEGMENTS; k++) {
+      const angle = startAngle + (sweep * k) / ARC_SEGMENTS;
+      points.push(new THREE.Vector2(center.x + radius * Math.cos(angle), center.y + radius * Math.sin(angle)));
+    }
+  });
+
+  return points;
+};
+
+export const getProfileBounds = (profile: number[][]): ProfileBounds => {
+  const points = profileToPoints(profile);
+  if (points.length === 0) return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+
+  return points.reduce(
+    (b, p) => ({
+      minX: Math.min(b.minX, p.x),
+      maxX: Math.max(b.maxX, p.x),
+      minY: Math.min(b.minY, p.y),
+      maxY: Math.max(b.maxY, p.y),
+    }),
+    { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }
+  );
+};
+
+/**
+ * Scales profile coordinates while leaving bulge values (which are unitless) untouched.
+ */
+export const scaleProfile = (profile: number[][], factor: number): number[][] =>
+  profile.map(([x, y, ...rest]) => [x * factor, y * factor, ...rest]);
+
+/**
+ * EXTRUDE: closed profile in the XY plane pushed along Z by args[0] (depth), centered on the origin.
+ */
+export const createExtrudeGeometry = (part: ModelPart): THREE.BufferGeometry => {
+  const points = profileToPoints(part.profile || []);
+  if (points.length < 3) return new THREE.BoxGeometry(1, 1, 1);
+
+  const shape = new THREE.Shape(points);
+  (part.holes || []).forEach(hole => {
+    const holePoints = profileToPoints(hole);
+    if (holePoints.length >= 3) shape.holes.push(new THREE.Path(holePoints));
+  });
+
+  const depth = part.args?.[0] || 1;
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false, curveSegments: ARC_SEGMENTS });
+  geometry.translate(0, 0, -depth / 2);
+  return geometry;
+};
+
+/**
+ * REVOLVE: profile in the XY plane (x = radius, y = height) swept around the Y axis
+ * by args[0] radians (default full turn) with args[1] segments.
+ */
+export const createRevolveGeometry = (part: ModelPart): THREE.BufferGeometry => {
+  const points = profileToPoints(part.profile || []).map(p => new THREE.Vector2(Math.max(0, p.x), p.y));
+  if (points.length < 2) return new THREE.BoxGeometry(1, 1, 1);
+
+  // Close the loop so the revolved solid is watertight
+  if (points.length > 2 && !points[0].equals(points[points.length - 1])) {
+    points.push(points[0].clone());
+  }
+
+  const angle = part.args?.[0] || Math.PI * 2;
+  const segments = part.args?.[1] || 48;
+  return new THREE.LatheGeometry(points, segments, 0, Math.min(angle, Math.PI * 2));
+};
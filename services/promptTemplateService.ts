@@ -0,0 +1,15 @@
+import { PromptTemplate } from '../types';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Placeholder names of a template, in order of first appearance.
+ */
+export const getPlaceholders = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+/**
+ * Substitutes every {placeholder}. Blank values fall back to the template default, then to the name itself.
+ */
+export const fillTemplate = (template: PromptTemplate, values: Record<string, string>): string =>
+  template.text.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name]?.trim() || template.defaults[name] || name);
@@ -0,0 +1,53 @@
+import { GeneratedModel, ShapeType } from "../../types";
+
+export interface ModelFixture {
+  keywords: string[]; // Matched against the prompt, first hit wins
+  model: GeneratedModel;
+}
+
+// Canned, hand-checked models served by the offline fixture provider
+export const MODEL_FIXTURES: ModelFixture[] = [
+  {
+    keywords: ['table', 'desk'],
+    model: {
+      name: "Fixture_Table",
+      units: 'mm',
+      parts: [
+        { id: 'top', type: ShapeType.BOX, position: [0, 730, 0], rotation: [0, 0, 0], scale: [1200, 40, 700], color: '#a16207', description: 'Table_Top' },
+        { id: 'legs', type: ShapeType.GROUP, position: [0, 355, 0], rotation: [0, 0, 0], scale: [1, 1, 1], color: '#000000', description: 'Leg_Assembly' },
+        { id: 'leg_1', type: ShapeType.CYLINDER, position: [550, 0, 300], rotation: [0, 0, 0], scale: [1, 1, 1], args: [25, 25, 710, 32], color: '#57534e', description: 'Leg_FR', parentId: 'legs' },
+        { id: 'leg_2', type: ShapeType.CYLINDER, position: [-550, 0, 300], rotation: [0, 0, 0], scale: [1, 1, 1], args: [25, 25, 710, 32], color: '#57534e', description: 'Leg_FL', parentId: 'legs' },
+        { id: 'leg_3', type: ShapeType.CYLINDER, position: [550, 0, -300], rotation: [0, 0, 0], scale: [1, 1, 1], args: [25, 25, 710, 32], color: '#57534e', description: 'Leg_BR', parentId: 'legs' },
+        { id: 'leg_4', type: ShapeType.CYLINDER, position: [-550, 0, -300], rotation: [0, 0, 0], scale: [1, 1, 1], args: [25, 25, 710, 32], color: '#57534e', description: 'Leg_BL', parentId: 'legs' },
+      ],
+    },
+  },
+  {
+    keywords: ['chair', 'seat', 'stool'],
+    model: {
+      name: "Fixture_Chair",
+      units: 'mm',
+      parts: [
+        { id: 'seat', type: ShapeType.BOX, position: [0, 450, 0], rotation: [0, 0, 0], scale: [450, 40, 450], color: '#0e7490', description: 'Seat_Panel' },
+        { id: 'back', type: ShapeType.BOX, position: [0, 720, -210], rotation: [-0.1, 0, 0], scale: [450, 500, 30], color: '#0e7490', description: 'Backrest' },
+        { id: 'legs', type: ShapeType.GROUP, position: [0, 215, 0], rotation: [0, 0, 0], scale: [1, 1, 1], color: '#000000', description: 'Leg_Assembly' },
+        { id: 'leg_1', type: ShapeType.CYLINDER, position: [190, 0, 190], rotation: [0, 0, 0], scale: [1, 1, 1], args: [15, 15, 430, 32], color: '#334155', description: 'Leg_FR', parentId: 'legs' },
+        { id: 'leg_2', type: ShapeType.CYLINDER, position: [-190, 0, 190], rotation: [0, 0, 0], scale: [1, 1, 1], args: [15, 15, 430, 32], color: '#334155', description: 'Leg_FL', parentId: 'legs' },
+        { id: 'leg_3', type: ShapeType.CYLINDER, position: [190, 0, -190], rotation: [0, 0, 0], scale: [1, 1, 1], args: [15, 15, 430, 32], color: '#334155', description: 'Leg_BR', parentId: 'legs' },
+        { id: 'leg_4', type: ShapeType.CYLINDER, position: [-190, 0, -190], rotation: [0, 0, 0], scale: [1, 1, 1], args: [15, 15, 430, 32], color: '#334155', description: 'Leg_BL', parentId: 'legs' },
+      ],
+    },
+  },
+  {
+    keywords: ['bracket', 'angle', 'plate', 'mount'],
+    model: {
+      name: "Fixture_Angle_Bracket",
+      units: 'mm',
+      parts: [
+        { id: 'body', type: ShapeType.EXTRUDE, position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], args: [40], profile: [[0, 0], [60, 0], [60, 6], [6, 6], [6, 60], [0, 60]], color: '#94a3b8', description: 'L_Profile' },
+        { id: 'hole_1', type: ShapeType.CYLINDER, position: [35, 3, 0], rotation: [0, 0, 0], scale: [1, 1, 1], args: [4, 4, 20, 32], color: '#000000', description: 'Bolt_Hole_Base', operation: 'subtract', targetId: 'body' },
+        { id: 'hole_2', type: ShapeType.CYLINDER, position: [3, 35, 0], rotation: [0, 0, Math.PI / 2], scale: [1, 1, 1], args: [4, 4, 20, 32], color: '#000000', description: 'Bolt_Hole_Wall', operation: 'subtract', targetId: 'body' },
+      ],
+    },
+  },
+];
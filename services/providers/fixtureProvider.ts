@@ -0,0 +1,86 @@
+import { GenerationRequest, ModelGenerator } from "../generatorRegistry";
+import { MODEL_FIXTURES } from "./fixtureModels";
+
+const RECORDINGS_KEY = 'cad-generator-recordings';
+
+/**
+ * Stable FNV-1a hash, so the same request always maps to the same recording or fixture.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Only what the user asked (and the variant seed) matters for replay, not temperature. Images count by
+// their content: attachment ids come from the file name, size and date, which change when the same
+// picture is renamed or saved again
+const getRequestKey = (request: GenerationRequest) =>
+  `${request.kind}${request.seed !== undefined ? `#${request.seed}` : ''}:${hashString(JSON.stringify(request.turns.map(t => [t.role, t.text, (t.images || []).map(i => hashString(i.dataUrl))])))}`;
+
+const loadRecordings = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Stores a live response so the fixture provider can replay it for the identical request.
+ */
+export const recordResponse = (request: GenerationRequest, text: string) => {
+  try {
+    const recordings = loadRecordings();
+    recordings[getRequestKey(request)] = text;
+    localStorage.setItem(RECORDINGS_KEY, JSON.stringify(recordings));
+  } catch (error) {
+    console.warn("Could not record generator response:", error);
+  }
+};
+
+// Chunking of replayed streams, roughly the pace of a fast hosted model
+const STREAM_CHUNK_SIZE = 96;
+const STREAM_CHUNK_DELAY_MS = 20;
+
+const resolveFixtureText = (request: GenerationRequest): string => {
+  const recorded = loadRecordings()[getRequestKey(request)];
+  if (recorded) return recorded;
+
+  if (request.kind === 'patch') {
+    return JSON.stringify({ summary: "No recorded change for this request (offline fixtures)", added: [], removed: [], modified: [] });
+  }
+
+  const prompt = (request.turns[request.turns.length - 1]?.text || '').toLowerCase();
+  const matched = MODEL_FIXTURES.findIndex(f => f.keywords.some(keyword => prompt.includes(keyword)));
+  // A seed steps through the other fixtures so variant requests get distinct results
+  const index = (matched === -1 ? hashString(prompt) : matched) + (request.seed ?? 0);
+  const fixture = MODEL_FIXTURES[index % MODEL_FIXTURES.length];
+
+  const { name, units, parts } = fixture.model;
+  return JSON.stringify({ name, units, partCount: parts.length, parts });
+};
+
+/**
+ * Deterministic offline provider: replays a recorded response when one exists,
+ * otherwise serves the canned model whose keywords match the prompt.
+ */
+export const createFixtureProvider = (): ModelGenerator => ({
+  id: 'fixture',
+  label: 'Offline fixtures',
+  generateText: async (request: GenerationRequest) => {
+    request.signal?.throwIfAborted();
+    return resolveFixtureText(request);
+  },
+  streamText: async function* (request: GenerationRequest) {
+    const text = resolveFixtureText(request);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      request.signal?.throwIfAborted();
+      yield text.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  },
+});
@@ -0,0 +1,73 @@
+import { GoogleGenAI } from "@google/genai";
+import { GeneratorSettings, ImageAttachment } from "../../types";
+import { GenerationRequest, GenerationTurn, ModelGenerator } from "../generatorRegistry";
+
+const createClient = () => {
+  // Safe access to environment variables (Vite uses import.meta.env, but we also support process.env if defined)
+  // @ts-ignore
+  const apiKey = import.meta.env?.VITE_API_KEY || process?.env?.API_KEY || process?.env?.GEMINI_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("API Key is missing. Please set VITE_API_KEY in .env file.");
+  }
+
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * Builds a turn with reference images sent inline ahead of the text.
+ */
+const toContent = ({ role, text, images = [] }: GenerationTurn) => ({
+  role,
+  parts: [
+    ...images.map((image: ImageAttachment) => ({
+      inlineData: { mimeType: image.mimeType, data: image.dataUrl.substring(image.dataUrl.indexOf(',') + 1) },
+    })),
+    { text },
+  ],
+});
+
+const toParams = (settings: GeneratorSettings, request: GenerationRequest) => ({
+  model: settings.geminiModel || "gemini-2.5-flash",
+  contents: request.turns.map(toContent),
+  config: {
+    systemInstruction: request.systemInstruction,
+    responseMimeType: "application/json",
+    responseSchema: request.responseSchema,
+    temperature: request.temperature,
+    ...(request.seed !== undefined ? { seed: request.seed } : {}),
+    abortSignal: request.signal,
+  },
+});
+
+export const createGeminiProvider = (settings: GeneratorSettings): ModelGenerator => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  generateText: async (request: GenerationRequest) => {
+    const ai = createClient();
+
+    const response = await ai.models.generateContent(toParams(settings, request));
+
+    const text = response.text;
+    if (!text) {
+      throw new Error("No response from Gemini.");
+    }
+    return text;
+  },
+  streamText: async function* (request: GenerationRequest) {
+    const ai = createClient();
+
+    const stream = await ai.models.generateContentStream(toParams(settings, request));
+
+    let hasText = false;
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        hasText = true;
+        yield chunk.text;
+      }
+    }
+    if (!hasText) {
+      throw new Error("No response from Gemini.");
+    }
+  },
+});
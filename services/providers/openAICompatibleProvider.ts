@@ -0,0 +1,125 @@
+import { Schema } from "@google/genai";
+import { GeneratorSettings } from "../../types";
+import { GenerationRequest, GenerationTurn, ModelGenerator } from "../generatorRegistry";
+
+/**
+ * Converts the Gemini response schema (upper-case types) into standard JSON Schema.
+ */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+const toMessage = ({ role, text, images = [] }: GenerationTurn) => ({
+  role: role === 'model' ? 'assistant' : 'user',
+  content: images.length === 0 ? text : [
+    ...images.map(image => ({ type: 'image_url', image_url: { url: image.dataUrl } })),
+    { type: 'text', text },
+  ],
+});
+
+const postCompletion = async (settings: GeneratorSettings, request: GenerationRequest, stream: boolean) => {
+  const baseUrl = settings.openAIBaseUrl.replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error("Server URL is missing. Set it in Settings.");
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.openAIApiKey ? { Authorization: `Bearer ${settings.openAIApiKey}` } : {}),
+    },
+    signal: request.signal,
+    body: JSON.stringify({
+      model: settings.openAIModel,
+      temperature: request.temperature,
+      ...(request.seed !== undefined ? { seed: request.seed } : {}),
+      stream,
+      messages: [
+        { role: 'system', content: request.systemInstruction },
+        ...request.turns.map(toMessage),
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: request.kind, schema: toJsonSchema(request.responseSchema) },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Model server responded ${response.status}: ${detail.slice(0, 200) || response.statusText}`);
+  }
+  return response;
+};
+
+/**
+ * Reads the server-sent event stream and yields the content deltas.
+ */
+async function* readEventStream(response: Response): AsyncIterable<string> {
+  if (!response.body) {
+    throw new Error("Model server does not support streaming.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+
+    // Events are newline separated; the last line may still be incomplete
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      try {
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      } catch {
+        console.warn("Skipping malformed stream event:", payload);
+      }
+    }
+  }
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API, e.g. a local
+ * llama.cpp server (http://localhost:8080/v1) or Ollama (http://localhost:11434/v1).
+ */
+export const createOpenAICompatibleProvider = (settings: GeneratorSettings): ModelGenerator => ({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  generateText: async (request: GenerationRequest) => {
+    const response = await postCompletion(settings, request, false);
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("No response from model server.");
+    }
+    return text;
+  },
+  streamText: async function* (request: GenerationRequest) {
+    const response = await postCompletion(settings, request, true);
+    yield* readEventStream(response);
+  },
+});
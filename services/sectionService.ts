@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+import { SectionPlane } from '../types';
+
+const AXIS_NORMALS: Record<'X' | 'Y' | 'Z', [number, number, number]> = {
+  X: [1, 0, 0],
+  Y: [0, 1, 0],
+  Z: [0, 0, 1],
+};
+
+/**
+ * Range the offset can be dragged through: where the plane starts and stops touching the bounds.
+ */
+export const getOffsetRange = (normal: [number, number, number], bounds: THREE.Box3): [number, number] => {
+  if (bounds.isEmpty()) return [-1, 1];
+  const n = new THREE.Vector3(...normal);
+  const { min, max } = bounds;
+  const projections = [0, 1, 2, 3, 4, 5, 6, 7].map(i =>
+    n.dot(new THREE.Vector3(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z)));
+  return [Math.min(...projections), Math.max(...projections)];
+};
+
+/**
+ * Plane across one axis through the middle of the bounds, cutting away the positive half.
+ */
+export const createAxisSection = (id: string, axis: 'X' | 'Y' | 'Z', bounds: THREE.Box3): SectionPlane => {
+  const [low, high] = getOffsetRange(AXIS_NORMALS[axis], bounds);
+  return { id, label: axis, normal: AXIS_NORMALS[axis], offset: (low + high) / 2, flipped: false, enabled: true };
+};
+
+/**
+ * Plane lying on a picked face. The face's outside is cut away, so the cut shows what lies behind it.
+ */
+export const createFaceSection = (id: string, point: THREE.Vector3, normal: THREE.Vector3): SectionPlane => {
+  const n = normal.clone().normalize();
+  return { id, label: 'Face', normal: [n.x, n.y, n.z], offset: n.dot(point), flipped: false, enabled: true };
+};
+
+/**
+ * The section as a three.js clipping plane in model space. three.js clips points on the
+ * negative side of a plane, so the plane faces the part of the model that is kept.
+ */
+export const toClippingPlane = (section: SectionPlane, target = new THREE.Plane()): THREE.Plane => {
+  const sign = section.flipped ? 1 : -1;
+  target.normal.set(...section.normal).multiplyScalar(sign);
+  target.constant = -sign * section.offset;
+  return target;
+};
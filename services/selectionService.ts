@@ -0,0 +1,19 @@
+export type SelectionMode = 'replace' | 'toggle' | 'add';
+
+/**
+ * Applies a pick to the current selection. Newly picked parts go last, so the last id is the primary selection.
+ */
+export const updateSelection = (selected: string[], ids: string[], mode: SelectionMode): string[] => {
+  const picked = Array.from(new Set(ids));
+  switch (mode) {
+    case 'add':
+      return [...selected.filter(id => !picked.includes(id)), ...picked];
+    case 'toggle': {
+      const deselected = picked.filter(id => selected.includes(id));
+      return [...selected.filter(id => !deselected.includes(id)), ...picked.filter(id => !deselected.includes(id))];
+    }
+    case 'replace':
+    default:
+      return picked;
+  }
+};
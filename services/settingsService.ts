@@ -0,0 +1,41 @@
+import { GeneratorSettings, StylePreset } from '../types';
+import { DEFAULT_GENERATOR_SETTINGS } from '../constants';
+
+const SETTINGS_KEY = 'cad-generator-settings';
+
+export const loadGeneratorSettings = (): GeneratorSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    // Merge so settings saved by older versions pick up new defaults
+    return { ...DEFAULT_GENERATOR_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_GENERATOR_SETTINGS;
+  }
+};
+
+export const saveGeneratorSettings = (settings: GeneratorSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not persist settings:", error);
+  }
+};
+
+const CUSTOM_PRESETS_KEY = 'cad-style-presets';
+
+export const loadCustomPresets = (): StylePreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_PRESETS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(preset => ({ ...preset, isCustom: true })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: StylePreset[]) => {
+  try {
+    localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn("Could not persist style presets:", error);
+  }
+};
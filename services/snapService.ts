@@ -0,0 +1,305 @@
+import * as THREE from 'three';
+import { GeneratedModel, ModelPart, PartChange } from '../types';
+import { flattenModel, getInheritedIds, getWorldFrameMatrix, resolveParents } from './hierarchyService';
+import { createPartGeometry, getPartBounds } from './primitiveRegistry';
+import { isBooleanTool } from './csgService';
+
+export type Axis = 0 | 1 | 2; // X, Y, Z of the model (Y up)
+
+export type AlignAnchor = 'min' | 'center' | 'max';
+
+export interface SnapOptions {
+  gridStep: number | null; // The part's origin lands on multiples of this; null turns grid snapping off
+  partDistance: number | null; // Box faces and centers within this distance of another part's snap; null turns it off
+  geometries?: Map<string, THREE.BufferGeometry>; // Evaluated boolean results, so features of cut parts are the real ones
+}
+
+const AXES: Axis[] = [0, 1, 2];
+const EPSILON = 1e-9;
+
+// Same crease angle as the drawn <Edges>, so the edges that snap are the ones on screen
+const FEATURE_EDGE_ANGLE = 15;
+
+// Flat faces smaller than this share of the part's surface (facets of round shapes) get no center snap
+const MIN_FACE_AREA_SHARE = 0.05;
+
+// Keeps snapped and aligned values free of float noise such as 0.30000000000000004
+const round = (value: number) => (Math.abs(value) < EPSILON ? 0 : Number(value.toPrecision(10)));
+
+const getAnchor = (box: THREE.Box3, axis: Axis, anchor: AlignAnchor) =>
+  anchor === 'min' ? box.min.getComponent(axis)
+    : anchor === 'max' ? box.max.getComponent(axis)
+    : (box.min.getComponent(axis) + box.max.getComponent(axis)) / 2;
+
+// The given parts and everything below them in the hierarchy
+const getSubtreeIds = (parts: ModelPart[], ids: string[]): Set<string> => {
+  const parents = resolveParents(parts);
+  const subtree = new Set(ids);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    parts.forEach(part => {
+      const parentId = parents.get(part.id);
+      if (parentId && subtree.has(parentId) && !subtree.has(part.id)) {
+        subtree.add(part.id);
+        grew = true;
+      }
+    });
+  }
+  return subtree;
+};
+
+// Selected parts whose ancestors are not selected too; moving those already moves the rest
+const getTopmostIds = (parts: ModelPart[], ids: string[]): string[] => {
+  const parents = resolveParents(parts);
+  const selected = new Set(ids);
+  return ids.filter(id => {
+    for (let cursor = parents.get(id); cursor; cursor = parents.get(cursor)) {
+      if (selected.has(cursor)) return false;
+    }
+    return parts.some(p => p.id === id);
+  }).filter((id, i, all) => all.indexOf(id) === i);
+};
+
+// Model-space frame a part's position is expressed in
+const getParentMatrix = (part: ModelPart, partsById: Map<string, ModelPart>, parents: Map<string, string | undefined>) => {
+  const parent = partsById.get(parents.get(part.id) ?? '');
+  return parent ? getWorldFrameMatrix(parent, partsById, parents) : new THREE.Matrix4();
+};
+
+// Meshes that are drawn: boolean tools and hidden parts have no body on screen to align or snap to
+const getDrawnParts = (model: GeneratedModel) => {
+  const hiddenIds = getInheritedIds(model.parts, 'hidden');
+  return flattenModel(model).filter(({ part }) => !hiddenIds.has(part.id) && !isBooleanTool(part, model.parts));
+};
+
+/**
+ * Corners, edge midpoints and flat-face centers of a part's geometry, in model space.
+ */
+const getFeaturePoints = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4): THREE.Vector3[] => {
+  const points = new Map<string, THREE.Vector3>();
+  const add = (point: THREE.Vector3) => {
+    const world = point.clone().applyMatrix4(matrix);
+    points.set(world.toArray().map(v => v.toFixed(6)).join(','), world);
+  };
+
+  const edges = new THREE.EdgesGeometry(geometry, FEATURE_EDGE_ANGLE);
+  const edgePosition = edges.getAttribute('position');
+  const start = new THREE.Vector3();
+  const end = new THREE.Vector3();
+  for (let i = 0; i + 1 < edgePosition.count; i += 2) {
+    start.fromBufferAttribute(edgePosition, i);
+    end.fromBufferAttribute(edgePosition, i + 1);
+    add(start);
+    add(end);
+    add(start.clone().lerp(end, 0.5));
+  }
+  edges.dispose();
+
+  // Triangles on the same plane make up one face; its center is the area-weighted centroid
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const count = index ? index.count : position.count;
+  const faces = new Map<string, { center: THREE.Vector3, area: number }>();
+  const triangle = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+  const midpoint = new THREE.Vector3();
+  let totalArea = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    const [a, b, c] = [i, i + 1, i + 2].map(j => (index ? index.getX(j) : j));
+    triangle.a.fromBufferAttribute(position, a);
+    triangle.b.fromBufferAttribute(position, b);
+    triangle.c.fromBufferAttribute(position, c);
+    const area = triangle.getArea();
+    if (area <= EPSILON) continue;
+    triangle.getNormal(normal);
+    const key = `${normal.toArray().map(v => v.toFixed(3)).join(',')}|${normal.dot(triangle.a).toFixed(4)}`;
+    const face = faces.get(key) ?? { center: new THREE.Vector3(), area: 0 };
+    face.center.addScaledVector(triangle.getMidpoint(midpoint), area);
+    face.area += area;
+    faces.set(key, face);
+    totalArea += area;
+  }
+  faces.forEach(({ center, area }) => {
+    if (area >= totalArea * MIN_FACE_AREA_SHARE) add(center.divideScalar(area));
+  });
+
+  return Array.from(points.values());
+};
+
+/**
+ * Model-space bounds of a part together with its drawn children. A group without any
+ * drawn geometry is reduced to the point at its origin so it can still be aligned.
+ */
+export const getSubtreeBounds = (model: GeneratedModel, id: string): THREE.Box3 => {
+  const subtree = getSubtreeIds(model.parts, [id]);
+  const bounds = new THREE.Box3();
+  getDrawnParts(model)
+    .filter(({ part }) => subtree.has(part.id))
+    .forEach(({ part, matrix }) => bounds.union(getPartBounds(part, matrix)));
+  if (!bounds.isEmpty()) return bounds;
+
+  const partsById = new Map(model.parts.map(p => [p.id, p]));
+  const part = partsById.get(id);
+  const origin = part ? new THREE.Vector3().setFromMatrixPosition(getWorldFrameMatrix(part, partsById, resolveParents(model.parts))) : new THREE.Vector3();
+  return new THREE.Box3(origin, origin.clone());
+};
+
+/**
+ * Moves parts by model-space offsets, converting each offset into the frame of the part's parent.
+ */
+const moveParts = (model: GeneratedModel, offsets: Map<string, THREE.Vector3>): PartChange[] => {
+  const partsById = new Map(model.parts.map(p => [p.id, p]));
+  const parents = resolveParents(model.parts);
+  const changes: PartChange[] = [];
+
+  offsets.forEach((offset, id) => {
+    const part = partsById.get(id);
+    if (!part || offset.lengthSq() < EPSILON * EPSILON) return;
+    const toLocal = new THREE.Matrix3().setFromMatrix4(getParentMatrix(part, partsById, parents)).invert();
+    const local = offset.clone().applyMatrix3(toLocal);
+    const [x, y, z] = part.position || [0, 0, 0];
+    changes.push({ id, position: [round(x + local.x), round(y + local.y), round(z + local.z)] });
+  });
+
+  return changes;
+};
+
+/**
+ * Lines the parts up with the selection's overall min, center or max on one axis.
+ */
+export const alignParts = (model: GeneratedModel, ids: string[], axis: Axis, anchor: AlignAnchor): PartChange[] => {
+  const topIds = getTopmostIds(model.parts, ids);
+  if (topIds.length < 2) return [];
+
+  const boxes = topIds.map(id => getSubtreeBounds(model, id));
+  const overall = boxes.reduce((all, box) => all.union(box), new THREE.Box3());
+  const target = getAnchor(overall, axis, anchor);
+
+  return moveParts(model, new Map(topIds.map((id, i) => {
+    const offset = new THREE.Vector3();
+    offset.setComponent(axis, target - getAnchor(boxes[i], axis, anchor));
+    return [id, offset];
+  })));
+};
+
+/**
+ * Spaces the parts so the gaps between neighbours are equal along one axis.
+ * The two outermost parts stay where they are; needs at least three parts.
+ */
+export const distributeParts = (model: GeneratedModel, ids: string[], axis: Axis): PartChange[] => {
+  const topIds = getTopmostIds(model.parts, ids);
+  if (topIds.length < 3) return [];
+
+  const items = topIds
+    .map(id => ({ id, box: getSubtreeBounds(model, id) }))
+    .sort((a, b) => getAnchor(a.box, axis, 'center') - getAnchor(b.box, axis, 'center'));
+  const sizeOf = (box: THREE.Box3) => box.max.getComponent(axis) - box.min.getComponent(axis);
+
+  const first = items[0].box;
+  const last = items[items.length - 1].box;
+  const span = last.max.getComponent(axis) - first.min.getComponent(axis);
+  const gap = (span - items.reduce((sum, { box }) => sum + sizeOf(box), 0)) / (items.length - 1);
+
+  const offsets = new Map<string, THREE.Vector3>();
+  let cursor = first.max.getComponent(axis) + gap;
+  items.slice(1, -1).forEach(({ id, box }) => {
+    const offset = new THREE.Vector3();
+    offset.setComponent(axis, cursor - box.min.getComponent(axis));
+    offsets.set(id, offset);
+    cursor += sizeOf(box) + gap;
+  });
+
+  return moveParts(model, offsets);
+};
+
+/**
+ * Drops or lifts each part so its lowest point rests on the ground plane (model Y = groundY).
+ */
+export const placeOnGround = (model: GeneratedModel, ids: string[], groundY = 0): PartChange[] =>
+  moveParts(model, new Map(getTopmostIds(model.parts, ids).map(id =>
+    [id, new THREE.Vector3(0, groundY - getSubtreeBounds(model, id).min.y, 0)])));
+
+/**
+ * Prepares snapping for a drag of one part and returns the function that snaps its new position.
+ * Only the model axes the part was moved along are snapped. When a corner, edge midpoint or face center
+ * of the part comes near one of another drawn part, the two points are joined. Otherwise, on each axis,
+ * the part's box min, center and max snap to those of the closest drawn part (touching faces, flush
+ * faces, centered); axes without a part nearby snap the part's origin to the grid.
+ */
+export const createPartSnapper = (model: GeneratedModel, id: string, options: SnapOptions) => {
+  const partsById = new Map(model.parts.map(p => [p.id, p]));
+  const parents = resolveParents(model.parts);
+  const part = partsById.get(id);
+  if (!part) return (position: [number, number, number]) => position;
+
+  const parentMatrix = getParentMatrix(part, partsById, parents);
+  const toModel = new THREE.Matrix3().setFromMatrix4(parentMatrix);
+  const toLocal = toModel.clone().invert();
+  const startPosition = new THREE.Vector3(...(part.position || [0, 0, 0]));
+  const startOrigin = startPosition.clone().applyMatrix4(parentMatrix);
+  const startBox = getSubtreeBounds(model, id);
+
+  // Everything else stays put during the drag, so the targets are measured once
+  const subtree = getSubtreeIds(model.parts, [id]);
+  const drawn = options.partDistance === null ? [] : getDrawnParts(model);
+  const others = drawn.filter(({ part }) => !subtree.has(part.id));
+  const targets = others.map(({ part, matrix }) => getPartBounds(part, matrix));
+  const getPoints = ({ part, matrix }: { part: ModelPart, matrix: THREE.Matrix4 }) => {
+    const geometry = options.geometries?.get(part.id);
+    if (geometry) return getFeaturePoints(geometry, matrix);
+    const primitive = createPartGeometry(part);
+    const points = getFeaturePoints(primitive, matrix);
+    primitive.dispose();
+    return points;
+  };
+  const targetPoints = others.flatMap(getPoints);
+  const ownPoints = drawn.filter(({ part }) => subtree.has(part.id)).flatMap(getPoints);
+
+  return (position: [number, number, number]): [number, number, number] => {
+    const moved = new THREE.Vector3(...position).sub(startPosition).applyMatrix3(toModel);
+    const box = startBox.clone().translate(moved);
+    const origin = startOrigin.clone().add(moved);
+    const correction = new THREE.Vector3();
+    const movedAxes = AXES.filter(axis => Math.abs(moved.getComponent(axis)) > EPSILON);
+
+    // Point to point first: the closest pair within reach decides every moved axis
+    let bestPoint: THREE.Vector3 | null = null;
+    const point = new THREE.Vector3();
+    ownPoints.forEach(own => {
+      point.copy(own).add(moved);
+      targetPoints.forEach(target => {
+        if (point.distanceTo(target) <= options.partDistance! && (!bestPoint || point.distanceTo(target) < bestPoint.length())) {
+          bestPoint = target.clone().sub(point);
+        }
+      });
+    });
+    const pointSnap = bestPoint as THREE.Vector3 | null;
+
+    movedAxes.forEach(axis => {
+      if (pointSnap) {
+        correction.setComponent(axis, pointSnap.getComponent(axis));
+        return;
+      }
+      let best: number | null = null;
+      targets.forEach(target => {
+        (['min', 'center', 'max'] as AlignAnchor[]).forEach(from => {
+          (['min', 'center', 'max'] as AlignAnchor[]).forEach(to => {
+            const distance = getAnchor(target, axis, to) - getAnchor(box, axis, from);
+            if (Math.abs(distance) <= options.partDistance! && (best === null || Math.abs(distance) < Math.abs(best))) best = distance;
+          });
+        });
+      });
+
+      if (best !== null) {
+        correction.setComponent(axis, best);
+      } else if (options.gridStep) {
+        const value = origin.getComponent(axis);
+        correction.setComponent(axis, Math.round(value / options.gridStep) * options.gridStep - value);
+      }
+    });
+
+    const snapped = new THREE.Vector3(...position).add(correction.applyMatrix3(toLocal));
+    return snapped.toArray().map(round) as [number, number, number];
+  };
+};
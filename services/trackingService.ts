@@ -1,5 +1,6 @@
 import { db } from '../firebaseConfig';
 import { collection, addDoc, query, orderBy, getDocs, limit, Timestamp } from 'firebase/firestore';
+import { ValidationReport } from '../types';
 
 export interface LogEntry {
   id: string;
@@ -28,6 +29,34 @@ export const logGeneration = async (prompt: string, modelName: string, partCount
   }
 };
 
+/**
+ * Records what the validator had to repair or reject, to track generator output quality.
+ */
+export const logValidationReport = async (prompt: string, modelName: string, report: ValidationReport) => {
+  const repaired = report.issues.filter(issue => issue.severity === 'repaired').length;
+  const rejected = report.issues.filter(issue => issue.severity === 'rejected').length;
+
+  if (!db) {
+    console.log(`[Offline Mode] Validation of "${modelName}": ${repaired} repaired, ${rejected} rejected`, report.issues);
+    return;
+  }
+
+  try {
+    await addDoc(collection(db, 'validation'), {
+      prompt,
+      modelName,
+      partsChecked: report.partsChecked,
+      partsRejected: report.partsRejected,
+      repaired,
+      rejected,
+      issues: report.issues.map(({ severity, partId = null, field = null, message }) => ({ severity, partId, field, message })),
+      timestamp: Timestamp.now()
+    });
+  } catch (error) {
+    console.warn("Validation tracking failed:", error);
+  }
+};
+
 export const fetchSystemLogs = async (): Promise<LogEntry[]> => {
   if (!db) {
     // Return empty logs if DB is not configured, preventing crash
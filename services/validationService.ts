@@ -0,0 +1,490 @@
+import * as THREE from 'three';
+import { BooleanOperation, CameraBookmark, Dimension, DimensionKind, GeneratedModel, LengthUnit, ModelPart, PrimitiveType, SectionPlane, ShapeType, ValidationIssue, ValidationReport } from '../types';
+import { DEFAULT_UNITS, UNIT_TO_MM } from '../constants';
+import { resolveParents } from './hierarchyService';
+import { ArgSpec, getPrimitive, PrimitiveDefinition } from './primitiveRegistry';
+
+export interface ValidatedModel {
+  model: GeneratedModel;
+  report: ValidationReport;
+}
+
+type PartIssue = Omit<ValidationIssue, 'partId'>;
+type IssueSink = (issue: PartIssue) => void;
+
+// Names LLMs commonly use instead of the schema's enum values
+const TYPE_ALIASES: Record<string, ShapeType> = {
+  cube: ShapeType.BOX,
+  ball: ShapeType.SPHERE,
+  extrusion: ShapeType.EXTRUDE,
+  lathe: ShapeType.REVOLVE,
+  assembly: ShapeType.GROUP,
+};
+
+const OPERATION_ALIASES: Record<string, BooleanOperation> = {
+  union: 'union',
+  add: 'union',
+  merge: 'union',
+  subtract: 'subtract',
+  subtraction: 'subtract',
+  difference: 'subtract',
+  cut: 'subtract',
+  intersect: 'intersect',
+  intersection: 'intersect',
+};
+
+const DEFAULT_COLOR = '#cccccc';
+const MIN_SEGMENTS = 3;
+const MAX_SEGMENTS = 256;
+// Rotations beyond two full turns are almost certainly degrees
+const MAX_PLAUSIBLE_RADIANS = Math.PI * 4;
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+const formatValue = (value: unknown) => {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const readVector = (
+  value: unknown,
+  fallback: [number, number, number],
+  field: 'position' | 'rotation' | 'scale',
+  report: IssueSink
+): [number, number, number] => {
+  if (!Array.isArray(value)) {
+    report({ severity: 'repaired', field, message: `${field} ${value === undefined ? 'missing' : `invalid (${formatValue(value)})`}, set to [${fallback.join(', ')}]` });
+    return [...fallback];
+  }
+
+  const vector = fallback.map((defaultValue, i) => {
+    const n = toNumber(value[i]);
+    // A zero scale collapses the part and makes its matrix non-invertible
+    return Number.isFinite(n) && !(field === 'scale' && n === 0) ? n : defaultValue;
+  }) as [number, number, number];
+
+  if (value.length !== 3 || vector.some((n, i) => n !== value[i])) {
+    report({ severity: 'repaired', field, message: `${field} ${formatValue(value)} → [${vector.join(', ')}]` });
+  }
+  return vector;
+};
+
+const readColor = (value: unknown, report: IssueSink): string => {
+  if (typeof value === 'string') {
+    if (/^#[0-9a-f]{6}$/i.test(value)) return value;
+
+    const text = value.trim().toLowerCase();
+    const hex = text.replace(/^(#|0x)/, '');
+    let color: string | undefined;
+    if (/^[0-9a-f]{6}$/.test(hex)) color = `#${hex}`;
+    else if (/^[0-9a-f]{3}$/.test(hex)) color = `#${hex.split('').map(c => c + c).join('')}`;
+    else if (text in THREE.Color.NAMES) color = `#${new THREE.Color(THREE.Color.NAMES[text as keyof typeof THREE.Color.NAMES]).getHexString()}`;
+
+    if (color) {
+      report({ severity: 'repaired', field: 'color', message: `color "${value}" → ${color}` });
+      return color;
+    }
+  }
+
+  report({ severity: 'repaired', field: 'color', message: `color ${value === undefined ? 'missing' : `"${formatValue(value)}" is not a hex color`}, set to ${DEFAULT_COLOR}` });
+  return DEFAULT_COLOR;
+};
+
+const readArgs = (primitive: PrimitiveDefinition, value: unknown, report: IssueSink): number[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    report({ severity: 'repaired', field: 'args', message: `args ${formatValue(value)} is not a list, defaults used` });
+    return undefined;
+  }
+
+  const spec = primitive.args;
+  // Args are positional, so an unusable value becomes 0 (= primitive default) instead of being dropped
+  const args = value.slice(0, spec.length).map((raw, i) => {
+    const n = toNumber(raw);
+    if (!Number.isFinite(n) || n === 0) return 0;
+    switch (spec[i].kind) {
+      case 'count':
+        return Math.min(MAX_SEGMENTS, Math.max(MIN_SEGMENTS, Math.round(n)));
+      case 'angle':
+        // Full turns given in degrees are common; anything else is clamped to one turn
+        return Math.abs(n) > Math.PI * 2 && Math.abs(n) <= 360 ? THREE.MathUtils.degToRad(Math.abs(n)) : Math.min(Math.PI * 2, Math.abs(n));
+      case 'length':
+      default:
+        return Math.abs(n);
+    }
+  });
+
+  if (value.length !== args.length || args.some((n, i) => n !== value[i])) {
+    const extra = value.length > spec.length ? ` (${primitive.type} takes ${spec.length})` : '';
+    report({ severity: 'repaired', field: 'args', message: `args ${formatValue(value)} → [${args.join(', ')}]${extra}` });
+  }
+  return args;
+};
+
+/**
+ * Checks an arg typed into the editor. Returns why the value is not usable, or null when it is.
+ * Stricter than readArgs, which repairs generated values instead of rejecting them.
+ */
+export const checkArgValue = (spec: ArgSpec, value: number): string | null => {
+  switch (spec.kind) {
+    case 'count':
+      if (!Number.isInteger(value)) return `${spec.name} must be a whole number`;
+      return value < MIN_SEGMENTS || value > MAX_SEGMENTS ? `${spec.name} must be between ${MIN_SEGMENTS} and ${MAX_SEGMENTS}` : null;
+    case 'angle':
+      return value <= 0 || value > Math.PI * 2 + 1e-9 ? `${spec.name} must be more than 0 and at most one full turn` : null;
+    case 'length':
+    default:
+      return value > 0 ? null : `${spec.name} must be greater than 0`;
+  }
+};
+
+const readLoop = (value: unknown): { vertices: number[][]; dropped: number } | null => {
+  if (!Array.isArray(value)) return null;
+  const vertices = value
+    .filter((vertex): vertex is unknown[] => Array.isArray(vertex) && vertex.length >= 2)
+    .map(vertex => vertex.slice(0, 3).map(toNumber))
+    .filter(vertex => vertex.every(Number.isFinite));
+  return { vertices, dropped: value.length - vertices.length };
+};
+
+const readType = (value: unknown, report: IssueSink): PrimitiveType | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  // Registered plugin primitives are as valid as the built-in shapes
+  const type = getPrimitive(text) ? text : TYPE_ALIASES[text];
+  if (type && type !== value) {
+    report({ severity: 'repaired', field: 'type', message: `type "${value}" → ${type}` });
+  }
+  return type ?? null;
+};
+
+/**
+ * Checks a single part on its own: shape, numbers, color and sketch data.
+ * References to other parts (ids, parents, targets) need the whole model and are checked by validateModel.
+ * Returns null when the part cannot be repaired.
+ */
+const repairPart = (raw: unknown, index: number, report: IssueSink): ModelPart | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    report({ severity: 'rejected', message: `Part #${index + 1} is not an object` });
+    return null;
+  }
+  const data = raw as Record<string, unknown>;
+
+  const type = readType(data.type, report);
+  const primitive = type ? getPrimitive(type) : undefined;
+  if (!type || !primitive) {
+    report({ severity: 'rejected', field: 'type', message: `Unknown primitive type ${formatValue(data.type)}` });
+    return null;
+  }
+
+  let id = typeof data.id === 'number' ? String(data.id) : typeof data.id === 'string' ? data.id.trim() : '';
+  if (!id) {
+    id = `${type}_${index + 1}`;
+    report({ severity: 'repaired', field: 'id', message: `id missing, set to "${id}"` });
+  }
+
+  const position = readVector(data.position, [0, 0, 0], 'position', report);
+  let rotation = readVector(data.rotation, [0, 0, 0], 'rotation', report);
+  let scale = readVector(data.scale, [1, 1, 1], 'scale', report);
+
+  if (rotation.some(angle => Math.abs(angle) > MAX_PLAUSIBLE_RADIANS)) {
+    const degrees = rotation;
+    rotation = rotation.map(angle => THREE.MathUtils.degToRad(angle)) as [number, number, number];
+    report({ severity: 'repaired', field: 'rotation', message: `rotation [${degrees.join(', ')}] looks like degrees, converted to radians` });
+  }
+
+  // Boxes are sized by scale; dimensions placed in args would otherwise be silently ignored
+  const rawArgs = Array.isArray(data.args) ? data.args.map(toNumber) : [];
+  if (type === ShapeType.BOX && rawArgs.length === 3 && rawArgs.every(n => Number.isFinite(n) && n > 0) && scale.every(s => s === 1)) {
+    scale = rawArgs as [number, number, number];
+    report({ severity: 'repaired', field: 'scale', message: `box dimensions given as args, moved to scale [${scale.join(', ')}]` });
+  }
+  const args = primitive.args.length === 0 ? undefined : readArgs(primitive, data.args, report);
+
+  const part: ModelPart = {
+    id,
+    type,
+    position,
+    rotation,
+    scale,
+    ...(args ? { args } : {}),
+    color: readColor(data.color, report),
+    description: typeof data.description === 'string' && data.description.trim() ? data.description : id,
+  };
+
+  if (primitive.usesProfile) {
+    const profile = readLoop(data.profile);
+    if (!profile || profile.vertices.length < 3) {
+      report({ severity: 'rejected', field: 'profile', message: `${type} needs a profile of at least 3 vertices` });
+      return null;
+    }
+    if (profile.dropped > 0) {
+      report({ severity: 'repaired', field: 'profile', message: `${profile.dropped} invalid profile vertices dropped` });
+    }
+    part.profile = profile.vertices;
+
+    // A revolved section must stay on one side of the axis
+    if (type === ShapeType.REVOLVE && part.profile.some(([x]) => x < 0)) {
+      part.profile = part.profile.map(([x, ...rest]) => [Math.max(0, x), ...rest]);
+      report({ severity: 'repaired', field: 'profile', message: 'negative radii in revolve profile clamped to the axis' });
+    }
+
+    if (primitive.allowsHoles && data.holes !== undefined) {
+      const holes = Array.isArray(data.holes) ? data.holes.map(readLoop) : [];
+      const usable = holes.filter((hole): hole is NonNullable<typeof hole> => !!hole && hole.vertices.length >= 3);
+      if (!Array.isArray(data.holes) || usable.length !== data.holes.length || usable.some(hole => hole.dropped > 0)) {
+        report({ severity: 'repaired', field: 'holes', message: `${Array.isArray(data.holes) ? data.holes.length - usable.length : 'all'} invalid hole loops dropped` });
+      }
+      if (usable.length > 0) part.holes = usable.map(hole => hole.vertices);
+    }
+  }
+
+  if (typeof data.parentId === 'string' && data.parentId) part.parentId = data.parentId;
+
+  if (data.operation !== undefined && data.operation !== null) {
+    const operation = typeof data.operation === 'string' ? OPERATION_ALIASES[data.operation.trim().toLowerCase()] : undefined;
+    if (!operation) {
+      report({ severity: 'rejected', field: 'operation', message: `Unknown boolean operation ${formatValue(data.operation)}` });
+      return null;
+    }
+    if (operation !== data.operation) {
+      report({ severity: 'repaired', field: 'operation', message: `operation "${data.operation}" → ${operation}` });
+    }
+    part.operation = operation;
+    if (typeof data.targetId === 'string') part.targetId = data.targetId;
+  }
+
+  // Viewport state saved with the project
+  if (data.hidden === true) part.hidden = true;
+  if (data.locked === true) part.locked = true;
+
+  return part;
+};
+
+// Number of points stored for each kind of dimension
+const DIMENSION_POINTS: Record<DimensionKind, number> = { distance: 2, edge: 2, angle: 3, radius: 4, clearance: 2 };
+
+/**
+ * Keeps the saved dimensions that are complete. Broken entries are dropped, references to parts
+ * that no longer exist are removed, and duplicate ids are renumbered.
+ */
+const readDimensions = (value: unknown, partIds: Set<string>, issues: ValidationIssue[]): Dimension[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ severity: 'rejected', field: 'dimensions', message: `Dimensions ${formatValue(value)} are not a list, dropped` });
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  const dimensions: Dimension[] = [];
+  value.forEach((raw, index) => {
+    const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const kind = data.kind as DimensionKind;
+    const points = Array.isArray(data.points) ? data.points.map(point => (Array.isArray(point) ? point.map(toNumber) : [])) : [];
+    const measured = toNumber(data.value);
+    const isComplete = kind in DIMENSION_POINTS
+      && points.length === DIMENSION_POINTS[kind]
+      && points.every(point => point.length === 3 && point.every(Number.isFinite))
+      && Number.isFinite(measured) && measured >= 0;
+    if (!isComplete) {
+      issues.push({ severity: 'rejected', field: 'dimensions', message: `Dimension #${index + 1} ${formatValue(raw)} is incomplete, dropped` });
+      return;
+    }
+
+    const rawId = typeof data.id === 'string' && data.id ? data.id : `dim_${index + 1}`;
+    let id = rawId;
+    for (let suffix = 2; seenIds.has(id); suffix++) id = `${rawId}_${suffix}`;
+    if (id !== rawId) issues.push({ severity: 'repaired', field: 'dimensions', message: `Duplicate dimension id "${rawId}" renamed to "${id}"` });
+    seenIds.add(id);
+
+    const dimensionPartIds = Array.isArray(data.partIds) ? data.partIds.filter((partId): partId is string => typeof partId === 'string' && partIds.has(partId)) : [];
+    dimensions.push({
+      id,
+      kind,
+      points: points as [number, number, number][],
+      value: measured,
+      ...(dimensionPartIds.length > 0 ? { partIds: dimensionPartIds } : {}),
+    });
+  });
+  return dimensions;
+};
+
+const readPoint = (value: unknown): [number, number, number] | null => {
+  if (!Array.isArray(value) || value.length !== 3) return null;
+  const point = value.map(toNumber);
+  return point.every(Number.isFinite) ? point as [number, number, number] : null;
+};
+
+/**
+ * Keeps the saved camera bookmarks that are complete; broken entries are dropped.
+ */
+const readBookmarks = (value: unknown, issues: ValidationIssue[]): CameraBookmark[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ severity: 'rejected', field: 'bookmarks', message: `Bookmarks ${formatValue(value)} are not a list, dropped` });
+    return [];
+  }
+
+  const bookmarks: CameraBookmark[] = [];
+  value.forEach((raw, index) => {
+    const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const position = readPoint(data.position);
+    const target = readPoint(data.target);
+    const viewHeight = toNumber(data.viewHeight);
+    if (!position || !target || !(viewHeight > 0)) {
+      issues.push({ severity: 'rejected', field: 'bookmarks', message: `Bookmark #${index + 1} ${formatValue(raw)} is incomplete, dropped` });
+      return;
+    }
+    const name = typeof data.name === 'string' && data.name.trim() ? data.name : `View ${index + 1}`;
+    const rawId = typeof data.id === 'string' && data.id ? data.id : `view_${index + 1}`;
+    let id = rawId;
+    for (let suffix = 2; bookmarks.some(b => b.id === id); suffix++) id = `${rawId}_${suffix}`;
+    bookmarks.push({ id, name, projection: data.projection === 'orthographic' ? 'orthographic' : 'perspective', position, target, viewHeight });
+  });
+  return bookmarks;
+};
+
+/**
+ * Keeps the saved section planes that have a usable normal and offset; broken entries are dropped.
+ * Normals are brought back to unit length, which the offsets are measured against.
+ */
+const readSections = (value: unknown, issues: ValidationIssue[]): SectionPlane[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ severity: 'rejected', field: 'sections', message: `Sections ${formatValue(value)} are not a list, dropped` });
+    return [];
+  }
+
+  const sections: SectionPlane[] = [];
+  value.forEach((raw, index) => {
+    const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const normal = readPoint(data.normal);
+    const length = normal ? Math.hypot(...normal) : 0;
+    const offset = toNumber(data.offset);
+    if (!normal || !(length > 0) || !Number.isFinite(offset)) {
+      issues.push({ severity: 'rejected', field: 'sections', message: `Section #${index + 1} ${formatValue(raw)} is incomplete, dropped` });
+      return;
+    }
+    const label = typeof data.label === 'string' && data.label.trim() ? data.label : 'Face';
+    const rawId = typeof data.id === 'string' && data.id ? data.id : `section_${index + 1}`;
+    let id = rawId;
+    for (let suffix = 2; sections.some(s => s.id === id); suffix++) id = `${rawId}_${suffix}`;
+    sections.push({
+      id,
+      label,
+      normal: normal.map(v => v / length) as [number, number, number],
+      offset: offset / length,
+      flipped: data.flipped === true,
+      enabled: data.enabled !== false,
+    });
+  });
+  return sections;
+};
+
+/**
+ * Repairs a part on its own, e.g. one that just arrived in a stream.
+ * Issues are not collected; the final validateModel pass reports them.
+ */
+export const sanitizePart = (raw: unknown, index: number): ModelPart | null =>
+  repairPart(raw, index, () => {});
+
+/**
+ * Validates parsed model data before it reaches the renderer or exporters.
+ * Safe fixes (defaults, clamping, unique ids, dangling references) are applied in place,
+ * parts that cannot be repaired are dropped, and every change is listed in the report.
+ * Throws when nothing usable is left.
+ */
+export const validateModel = (raw: unknown): ValidatedModel => {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as { parts?: unknown }).parts)) {
+    throw new Error("The model data has no parts list.");
+  }
+  const data = raw as Record<string, unknown>;
+  const rawParts = data.parts as unknown[];
+  const issues: ValidationIssue[] = [];
+
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name : 'Untitled Model';
+  if (name !== data.name) {
+    issues.push({ severity: 'repaired', field: 'name', message: `Model name missing, set to "${name}"` });
+  }
+
+  // Older files without units are read in the default unit, so only a wrong value is an issue
+  const units = typeof data.units === 'string' && data.units in UNIT_TO_MM ? data.units as LengthUnit : DEFAULT_UNITS;
+  if (data.units !== undefined && units !== data.units) {
+    issues.push({ severity: 'repaired', field: 'units', message: `Unknown unit ${formatValue(data.units)}, using ${units}` });
+  }
+
+  let parts: ModelPart[] = [];
+  rawParts.forEach((rawPart, index) => {
+    const partIssues: PartIssue[] = [];
+    const part = repairPart(rawPart, index, issue => partIssues.push(issue));
+    const rawId = (rawPart as { id?: unknown } | null)?.id;
+    const partId = part?.id ?? (typeof rawId === 'string' ? rawId : `#${index + 1}`);
+    issues.push(...partIssues.map(issue => ({ ...issue, partId })));
+    if (part) parts.push(part);
+  });
+
+  // Ids must be unique; references keep pointing at the first part with the id
+  const seenIds = new Set<string>();
+  parts = parts.map(part => {
+    if (!seenIds.has(part.id)) {
+      seenIds.add(part.id);
+      return part;
+    }
+    let suffix = 2;
+    while (seenIds.has(`${part.id}_${suffix}`)) suffix++;
+    const id = `${part.id}_${suffix}`;
+    seenIds.add(id);
+    issues.push({ severity: 'repaired', partId: part.id, field: 'id', message: `Duplicate id renamed to "${id}"` });
+    return { ...part, id };
+  });
+
+  // A tool without a target would show up as a stray solid; dropping one may orphan tools aimed at it
+  let removedTool = true;
+  while (removedTool) {
+    removedTool = false;
+    const ids = new Set(parts.map(p => p.id));
+    parts = parts.filter(part => {
+      if (!part.operation || (part.targetId && part.targetId !== part.id && ids.has(part.targetId))) return true;
+      issues.push({ severity: 'rejected', partId: part.id, field: 'targetId', message: `${part.operation} tool targets ${part.targetId ? `missing part "${part.targetId}"` : 'nothing'}` });
+      removedTool = true;
+      return false;
+    });
+  }
+
+  // Dangling and cyclic parents would silently re-root the part, make that explicit
+  const parents = resolveParents(parts);
+  const ids = new Set(parts.map(p => p.id));
+  parts = parts.map(part => {
+    if (!part.parentId || parents.get(part.id)) return part;
+    const reason = part.parentId === part.id ? 'is the part itself' : ids.has(part.parentId) ? 'forms a cycle' : 'does not exist';
+    issues.push({ severity: 'repaired', partId: part.id, field: 'parentId', message: `Parent "${part.parentId}" ${reason}, moved to top level` });
+    const { parentId: _parentId, ...rest } = part;
+    return rest;
+  });
+
+  if (parts.length === 0) {
+    throw new Error("The generated model has no usable parts.");
+  }
+
+  // Generated models have none; files saved after measuring, bookmarking views or cutting sections do
+  const dimensions = readDimensions(data.dimensions, new Set(parts.map(p => p.id)), issues);
+  const bookmarks = readBookmarks(data.bookmarks, issues);
+  const sections = readSections(data.sections, issues);
+
+  return {
+    model: {
+      name,
+      units,
+      parts,
+      ...(dimensions.length > 0 ? { dimensions } : {}),
+      ...(bookmarks.length > 0 ? { bookmarks } : {}),
+      ...(sections.length > 0 ? { sections } : {}),
+    },
+    report: {
+      issues,
+      partsChecked: rawParts.length,
+      partsRejected: rawParts.length - parts.length,
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { ModelPart, PartChange } from '../types';
+import { resolveParents } from './hierarchyService';
+
+// Flags are removed rather than set to false, so saved projects only mention them when they are on
+const setFlag = (parts: ModelPart[], flag: 'hidden' | 'locked', isOn: (part: ModelPart) => boolean): PartChange[] =>
+  parts
+    .filter(part => !!part[flag] !== isOn(part))
+    .map(part => ({ id: part.id, [flag]: isOn(part) || undefined }));
+
+/**
+ * Hides or shows the given parts. Children follow their parent without being changed themselves.
+ */
+export const setPartsHidden = (parts: ModelPart[], ids: string[], hidden: boolean): PartChange[] =>
+  setFlag(parts.filter(p => ids.includes(p.id)), 'hidden', () => hidden);
+
+export const setPartsLocked = (parts: ModelPart[], ids: string[], locked: boolean): PartChange[] =>
+  setFlag(parts.filter(p => ids.includes(p.id)), 'locked', () => locked);
+
+export const showAllParts = (parts: ModelPart[]): PartChange[] => setFlag(parts, 'hidden', () => false);
+
+export const hideAllParts = (parts: ModelPart[]): PartChange[] => setFlag(parts, 'hidden', () => true);
+
+/**
+ * Hides everything except the given parts. Their ancestors stay visible so the parts themselves
+ * are not hidden through them, and their children stay visible with them.
+ */
+export const isolateParts = (parts: ModelPart[], ids: string[]): PartChange[] => {
+  const parents = resolveParents(parts);
+  const visible = new Set<string>();
+
+  ids.forEach(id => {
+    for (let cursor: string | undefined = id; cursor && !visible.has(cursor); cursor = parents.get(cursor)) {
+      visible.add(cursor);
+    }
+  });
+
+  // Descendants of an isolated part: walk up from every part until an isolated one is found
+  const isolated = new Set(ids);
+  parts.forEach(part => {
+    for (let cursor: string | undefined = part.id; cursor; cursor = parents.get(cursor)) {
+      if (isolated.has(cursor)) {
+        visible.add(part.id);
+        return;
+      }
+    }
+  });
+
+  return setFlag(parts, 'hidden', part => !visible.has(part.id));
+};
@@ -4,23 +4,177 @@ export enum ShapeType {
   CYLINDER = 'cylinder',
   CONE = 'cone',
   TORUS = 'torus',
-  ICOSAHEDRON = 'icosahedron'
+  ICOSAHEDRON = 'icosahedron',
+  EXTRUDE = 'extrude', // 2D profile pushed along Z
+  REVOLVE = 'revolve', // 2D profile swept around Y (lathe)
+  GROUP = 'group' // Transform-only node used to build assemblies, has no geometry
 }
 
+// Built-in shape or the type name of a primitive registered by a plugin (see primitiveRegistry)
+export type PrimitiveType = ShapeType | (string & {});
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect';
+
 export interface ModelPart {
   id: string;
-  type: ShapeType;
+  type: PrimitiveType;
   position: [number, number, number];
   rotation: [number, number, number];
   scale: [number, number, number]; // Used for Box mainly
   args?: number[]; // [radius, height, etc] specific to shape
   color: string;
   description: string; // Describes what this part represents (e.g., "Left Leg")
+  profile?: number[][]; // EXTRUDE/REVOLVE sketch: closed loop of [x, y] or [x, y, bulge] vertices
+  holes?: number[][][]; // EXTRUDE only: inner loops cut through the profile (same vertex format)
+  parentId?: string; // Optional parent part/group. Position & rotation are then local to the parent
+  operation?: BooleanOperation; // Makes this part a CSG tool applied to targetId instead of a solid of its own
+  targetId?: string; // Part or group the operation is applied to
+  hidden?: boolean; // Not drawn and left out of view fitting; applies to the part's children too
+  locked?: boolean; // Cannot be picked or edited; applies to the part's children too
+}
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export type DimensionKind = 'distance' | 'edge' | 'angle' | 'radius' | 'clearance';
+
+// Measurement kept with the model and drawn as a label in the viewport. Points are in model space,
+// so the dimension stays where it was measured if the parts are moved later
+export interface Dimension {
+  id: string;
+  kind: DimensionKind;
+  // distance, edge & clearance: [from, to]; angle: [a, vertex, b]; radius: [center, three points on the circle]
+  points: [number, number, number][];
+  value: number; // Model units, radians for angles
+  partIds?: string[]; // Parts the points were picked on
+}
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
+// Named camera view saved with the project. Positions are in model space
+export interface CameraBookmark {
+  id: string;
+  name: string;
+  projection: CameraProjection;
+  position: [number, number, number];
+  target: [number, number, number];
+  viewHeight: number; // Visible height at the target in model units; sets the orthographic zoom
+}
+
+// A clipping plane of the section view. Everything on the normal's side of the plane is cut away
+export interface SectionPlane {
+  id: string;
+  label: string; // Axis name or "Face"
+  normal: [number, number, number]; // Model space, unit length
+  offset: number; // Position of the plane along the normal, from the model origin
+  flipped: boolean; // Cuts away the other side instead
+  enabled: boolean;
 }
 
 export interface GeneratedModel {
   name: string;
+  units?: LengthUnit; // Unit of every length in the model. Older files without it are read as DEFAULT_UNITS
   parts: ModelPart[];
+  dimensions?: Dimension[]; // Persistent measurements, saved with the .part file
+  bookmarks?: CameraBookmark[]; // Saved camera views, saved with the .part file
+  sections?: SectionPlane[]; // Section view planes, saved with the .part file
+}
+
+export type GenerationMode = 'new' | 'refine';
+
+// One of several alternative results generated for the same prompt
+export interface DesignVariant {
+  id: string;
+  prompt: string; // Prompt the variant was generated from
+  model: GeneratedModel; // Keeps later edits once the variant has been used
+  report: ValidationReport;
+  temperature: number;
+  seed: number;
+}
+
+// Outcome of checking generated or loaded model data
+export type ValidationSeverity = 'repaired' | 'rejected';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity; // 'repaired': value fixed in place, 'rejected': part dropped
+  partId?: string; // Missing for model-level issues
+  field?: keyof ModelPart | keyof GeneratedModel;
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  partsChecked: number;
+  partsRejected: number;
+}
+
+// Physical plausibility problems, found in the model's world space (Y up, ground at the lowest point)
+export type PlausibilityKind = 'floating' | 'disconnected' | 'ground-gap' | 'interpenetration';
+
+export interface PlausibilityFinding {
+  kind: PlausibilityKind;
+  partIds: string[];
+  message: string;
+  region: { min: [number, number, number]; max: [number, number, number] }; // World-space box to highlight
+}
+
+// Reference image (sketch or photo) sent along with a prompt
+export interface ImageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  dataUrl: string; // data:<mime>;base64,<data> — used for previews and the viewport overlay
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// Partial update of an existing part, matched by id
+export type PartChange = Partial<ModelPart> & { id: string };
+
+// Change set returned by a refinement request, reviewed by the user before it is applied
+export interface ModelPatch {
+  summary: string;
+  name?: string;
+  added: ModelPart[];
+  removed: string[];
+  modified: PartChange[];
+}
+
+export type GeneratorProviderId = 'gemini' | 'openai' | 'fixture';
+
+export interface GeneratorSettings {
+  provider: GeneratorProviderId;
+  geminiModel: string;
+  openAIBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  openAIModel: string;
+  openAIApiKey: string; // Optional, most local servers ignore it
+  recordResponses: boolean; // Save live responses for the fixture provider to replay
+  autoCorrectPlausibility: boolean; // Send physical plausibility findings back to the generator after a build
+  maxCorrectionRounds: number;
+  requestTimeoutSeconds: number; // Per attempt; for streams, the longest silence between chunks
+  maxRetries: number; // Automatic retries of rate-limited, overloaded or dropped requests
+  stylePresetId: string; // Selected StylePreset, built-in or custom
+}
+
+// Generation style: extra guidance, part budget, colors and sampling temperature
+export interface StylePreset {
+  id: string;
+  name: string;
+  instruction: string; // Appended to the system instruction. Empty keeps the default behaviour
+  partBudget?: [number, number]; // Suggested [min, max] number of parts
+  palette: string[]; // Hex colors the generator picks from. Empty leaves colors free
+  temperature: number;
+  isCustom?: boolean; // Saved by the user rather than built in
+}
+
+// Reusable prompt with {placeholders} that are filled in before generating
+export interface PromptTemplate {
+  id: string;
+  category: string;
+  text: string; // e.g. "A {material} chair with {n} legs"
+  defaults: Record<string, string>; // Initial value of each placeholder
 }
 
 export interface GenerationState {
@@ -28,4 +182,6 @@ export interface GenerationState {
   progress: number; // 0-100
   status: string; // "Analyzing...", "Drafting geometry...", "Finalizing..."
   error?: string;
+  partsReceived?: number; // Parts streamed in so far during generation
+  expectedParts?: number; // Part count announced by the generator, when known
 }
\ No newline at end of file